@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "tokensRevokedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "revoked_tokens" (
+    "jti" TEXT NOT NULL PRIMARY KEY,
+    "userId" INTEGER NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "revokedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "revoked_tokens_expiresAt_idx" ON "revoked_tokens"("expiresAt");
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" INTEGER NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" DATETIME,
+    CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Existing refresh token families become sessions
+INSERT INTO "sessions" ("id", "userId", "createdAt", "lastSeenAt", "revokedAt")
+SELECT "family", "userId", MIN("createdAt"), MAX("createdAt"),
+    CASE WHEN SUM(CASE WHEN "revokedAt" IS NULL THEN 1 ELSE 0 END) = 0 THEN MAX("revokedAt") ELSE NULL END
+FROM "refresh_tokens"
+GROUP BY "family", "userId";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_refresh_tokens" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "tokenHash" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "revokedAt" DATETIME,
+    "replacedById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "refresh_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "refresh_tokens_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_refresh_tokens" ("createdAt", "expiresAt", "id", "replacedById", "revokedAt", "sessionId", "tokenHash", "userId") SELECT "createdAt", "expiresAt", "id", "replacedById", "revokedAt", "family", "tokenHash", "userId" FROM "refresh_tokens";
+DROP TABLE "refresh_tokens";
+ALTER TABLE "new_refresh_tokens" RENAME TO "refresh_tokens";
+CREATE UNIQUE INDEX "refresh_tokens_tokenHash_key" ON "refresh_tokens"("tokenHash");
+CREATE INDEX "refresh_tokens_userId_idx" ON "refresh_tokens"("userId");
+CREATE INDEX "refresh_tokens_sessionId_idx" ON "refresh_tokens"("sessionId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_idx" ON "sessions"("userId");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "permissions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "key" TEXT NOT NULL,
+    "description" TEXT
+);
+
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "role" TEXT NOT NULL,
+    "permissionId" INTEGER NOT NULL,
+
+    PRIMARY KEY ("role", "permissionId"),
+    CONSTRAINT "role_permissions_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "permissions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "permissions_key_key" ON "permissions"("key");
+
+-- Seed permissions
+INSERT INTO "permissions" ("key", "description") VALUES
+    ('user.read', 'View users'),
+    ('user.create', 'Create users'),
+    ('user.update', 'Update any user (owners can always update themselves)'),
+    ('user.delete', 'Delete users'),
+    ('user.unlock', 'Clear account lockouts'),
+    ('user.role.update', 'Change user roles'),
+    ('user.session.read', 'View other users'' sessions'),
+    ('user.session.revoke', 'Revoke other users'' sessions');
+
+-- Grant the same access the hard-coded role checks used to give
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'USER', "id" FROM "permissions" WHERE "key" IN ('user.read');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'MODERATOR', "id" FROM "permissions" WHERE "key" IN ('user.read', 'user.create', 'user.delete');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions";
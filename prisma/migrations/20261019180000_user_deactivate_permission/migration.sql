@@ -0,0 +1,6 @@
+-- Seed permission
+INSERT INTO "permissions" ("key", "description") VALUES
+    ('user.deactivate', 'Deactivate and reactivate accounts');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" = 'user.deactivate';
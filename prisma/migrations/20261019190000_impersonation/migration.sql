@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "impersonation_audit_logs" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "impersonationId" TEXT NOT NULL,
+    "actorId" INTEGER NOT NULL,
+    "targetUserId" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "statusCode" INTEGER,
+    "ipAddress" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "impersonation_audit_logs_impersonationId_idx" ON "impersonation_audit_logs"("impersonationId");
+
+-- CreateIndex
+CREATE INDEX "impersonation_audit_logs_actorId_idx" ON "impersonation_audit_logs"("actorId");
+
+-- CreateIndex
+CREATE INDEX "impersonation_audit_logs_targetUserId_idx" ON "impersonation_audit_logs"("targetUserId");
+
+-- Seed permission
+INSERT INTO "permissions" ("key", "description") VALUES
+    ('user.impersonate', 'Act as another user for support');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" = 'user.impersonate';
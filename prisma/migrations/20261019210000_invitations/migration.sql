@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "invitations" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "invitedById" INTEGER,
+    "tokenVersion" INTEGER NOT NULL DEFAULT 1,
+    "expiresAt" DATETIME NOT NULL,
+    "sentAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acceptedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "invitations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "invitations_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invitations_userId_key" ON "invitations"("userId");
+
+-- CreateIndex
+CREATE INDEX "invitations_invitedById_idx" ON "invitations"("invitedById");
+
+-- Seed permission
+INSERT INTO "permissions" ("key", "description") VALUES
+    ('user.invite', 'List and resend invitations');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" = 'user.invite';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "webTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_webTokenHash_key" ON "sessions"("webTokenHash");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "requestId" TEXT,
+    "details" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "security_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_userId_createdAt_idx" ON "security_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "security_events_createdAt_idx" ON "security_events"("createdAt");
+
+-- Seed permission
+INSERT INTO "permissions" ("key", "description") VALUES
+    ('user.security-event.read', 'View any user''s login history and security events');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" = 'user.security-event.read';
@@ -0,0 +1,6 @@
+-- Seed permission
+INSERT INTO "permissions" ("key", "description") VALUES
+    ('user.read.admin', 'See the role and account status of users');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" = 'user.read.admin';
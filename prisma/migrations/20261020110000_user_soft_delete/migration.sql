@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deletedAt" DATETIME;
+ALTER TABLE "users" ADD COLUMN "deletedEmail" TEXT;
+
+-- CreateIndex
+CREATE INDEX "users_deletedAt_idx" ON "users"("deletedAt");
+
+-- Seed permission
+INSERT INTO "permissions" ("key", "description") VALUES
+    ('user.restore', 'List deleted users and restore them');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" = 'user.restore';
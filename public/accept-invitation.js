@@ -0,0 +1,51 @@
+function showAlert(message, type = 'error') {
+	const container = document.getElementById('alert-container');
+	const color = type === 'error' ? 'red' : 'green';
+	container.innerHTML = `<div style="border: 1px solid ${color}; background: ${
+		type === 'error' ? '#ffebee' : '#e8f5e8'
+	}; padding: 10px; margin: 10px 0; color: ${color};">${message}</div>`;
+}
+
+// Sent with every request so the server can tell it came from this page
+function csrfHeaders() {
+	return {
+		'Content-Type': 'application/json',
+		'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]').content,
+	};
+}
+
+document.addEventListener('DOMContentLoaded', function () {
+	document.getElementById('invitation-form').addEventListener('submit', async (e) => {
+		e.preventDefault();
+
+		const token = document.getElementById('invitation-token').value;
+		const password = document.getElementById('invitation-password').value;
+		const btn = document.getElementById('invitation-btn');
+		btn.disabled = true;
+
+		try {
+			const response = await fetch('/web/accept-invitation', {
+				method: 'POST',
+				headers: csrfHeaders(),
+				body: JSON.stringify({ token, password }),
+			});
+
+			const data = await response.json();
+
+			if (data.success) {
+				showAlert(`Welcome, ${data.data.user.name}! Redirecting...`, 'success');
+				setTimeout(() => {
+					window.location.href = '/web/dashboard';
+				}, 1500);
+			} else {
+				// Password policy errors are objects with a message per failed rule
+				const errors = (data.errors || []).map((error) => error.message || error);
+				showAlert(errors.join(', ') || data.message || 'Could not accept the invitation.');
+				btn.disabled = false;
+			}
+		} catch (error) {
+			showAlert('Network error. Please check your connection and try again.');
+			btn.disabled = false;
+		}
+	});
+});
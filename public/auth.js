@@ -47,6 +47,14 @@ function setLoading(formType, isLoading) {
 	}
 }
 
+// Sent with every request so the server can tell it came from this page
+function csrfHeaders() {
+	return {
+		'Content-Type': 'application/json',
+		'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]').content,
+	};
+}
+
 // Login form handler
 document.addEventListener('DOMContentLoaded', function () {
 	document.getElementById('login-form').addEventListener('submit', async (e) => {
@@ -58,21 +66,27 @@ document.addEventListener('DOMContentLoaded', function () {
 		const password = document.getElementById('login-password').value;
 
 		try {
-			const response = await fetch('/api/v1/auth/login', {
+			const response = await fetch('/web/login', {
 				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
+				headers: csrfHeaders(),
 				body: JSON.stringify({ email, password }),
 			});
 
-			const data = await response.json();
+			let data = await response.json();
+
+			// Second step for accounts with two-factor authentication
+			if (data.success && data.data.twoFactorRequired) {
+				const code = window.prompt('Enter the code from your authenticator app (or a recovery code):');
+				const verifyResponse = await fetch('/web/login/2fa', {
+					method: 'POST',
+					headers: csrfHeaders(),
+					body: JSON.stringify({ challengeToken: data.data.challengeToken, code: code || '' }),
+				});
+				data = await verifyResponse.json();
+			}
 
 			if (data.success) {
-				// Store token in sessionStorage for this demo
-				sessionStorage.setItem('authToken', data.data.token);
-				sessionStorage.setItem('user', JSON.stringify(data.data.user));
-
+				// The session is kept in an httpOnly cookie set by the server
 				showAlert(`Welcome back, ${data.data.user.name}! Redirecting...`, 'success');
 
 				// Redirect after 1.5 seconds
@@ -89,6 +103,32 @@ document.addEventListener('DOMContentLoaded', function () {
 		}
 	});
 
+	// Passwordless login: only the email field is needed
+	document.getElementById('magic-link-btn').addEventListener('click', async () => {
+		clearAlerts();
+
+		const email = document.getElementById('login-email').value;
+		if (!email) {
+			showAlert('Enter your email address first.');
+			return;
+		}
+
+		try {
+			const response = await fetch('/api/v1/auth/magic-link', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({ email }),
+			});
+
+			const data = await response.json();
+			showAlert(data.message, data.success ? 'success' : 'error');
+		} catch (error) {
+			showAlert('Network error. Please check your connection and try again.');
+		}
+	});
+
 	// Register form handler
 	document.getElementById('register-form').addEventListener('submit', async (e) => {
 		e.preventDefault();
@@ -99,30 +139,19 @@ document.addEventListener('DOMContentLoaded', function () {
 		const email = document.getElementById('register-email').value;
 		const password = document.getElementById('register-password').value;
 
-		// Client-side password validation
-		const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/;
-		if (!passwordRegex.test(password)) {
-			showAlert('Password must contain at least one lowercase letter, one uppercase letter, and one number.');
-			setLoading('register', false);
-			return;
-		}
-
 		try {
-			const response = await fetch('/api/v1/auth/register', {
+			const response = await fetch('/web/register', {
 				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
+				headers: csrfHeaders(),
 				body: JSON.stringify({ name, email, password }),
 			});
 
 			const data = await response.json();
 
-			if (data.success) {
-				// Store token in sessionStorage for this demo
-				sessionStorage.setItem('authToken', data.data.token);
-				sessionStorage.setItem('user', JSON.stringify(data.data.user));
-
+			if (data.success && data.data.emailVerificationRequired) {
+				switchTab('login');
+				showAlert('Account created! Check your email for a verification link before logging in.', 'success');
+			} else if (data.success) {
 				showAlert(`Account created successfully! Welcome, ${data.data.user.name}! Redirecting...`, 'success');
 
 				// Redirect after 1.5 seconds
@@ -130,7 +159,9 @@ document.addEventListener('DOMContentLoaded', function () {
 					window.location.href = '/web/dashboard';
 				}, 1500);
 			} else {
-				showAlert(data.message || 'Registration failed. Please try again.');
+				// The password policy is checked on the server, which reports each failed rule
+				const errors = (data.errors || []).map((error) => error.message || error);
+				showAlert(errors.join(', ') || data.message || 'Registration failed. Please try again.');
 			}
 		} catch (error) {
 			showAlert('Network error. Please check your connection and try again.');
@@ -139,18 +170,6 @@ document.addEventListener('DOMContentLoaded', function () {
 		}
 	});
 
-	// Check if user is already logged in
-	const token = sessionStorage.getItem('authToken');
-	const user = sessionStorage.getItem('user');
-
-	if (token && user) {
-		const userData = JSON.parse(user);
-		showAlert(`You're already logged in as ${userData.name}. Redirecting to dashboard...`, 'success');
-		setTimeout(() => {
-			window.location.href = '/web/dashboard';
-		}, 2000);
-	}
-
 	// Initialize login tab as active
 	switchTab('login');
 });
@@ -0,0 +1,58 @@
+function showAlert(message, type = 'error') {
+	const container = document.getElementById('alert-container');
+	const color = type === 'error' ? 'red' : 'green';
+	container.innerHTML = `<div style="border: 1px solid ${color}; background: ${
+		type === 'error' ? '#ffebee' : '#e8f5e8'
+	}; padding: 10px; margin: 10px 0; color: ${color};">${message}</div>`;
+}
+
+// Sent with every request so the server can tell it came from this page
+function csrfHeaders() {
+	return {
+		'Content-Type': 'application/json',
+		'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]').content,
+	};
+}
+
+document.addEventListener('DOMContentLoaded', function () {
+	document.getElementById('magic-link-form').addEventListener('submit', async (e) => {
+		e.preventDefault();
+
+		const token = document.getElementById('magic-link-token').value;
+		const btn = document.getElementById('magic-link-btn');
+		btn.disabled = true;
+
+		try {
+			const response = await fetch('/web/magic-link', {
+				method: 'POST',
+				headers: csrfHeaders(),
+				body: JSON.stringify({ token }),
+			});
+
+			let data = await response.json();
+
+			// Second step for accounts with two-factor authentication
+			if (data.success && data.data.twoFactorRequired) {
+				const code = window.prompt('Enter the code from your authenticator app (or a recovery code):');
+				const verifyResponse = await fetch('/web/login/2fa', {
+					method: 'POST',
+					headers: csrfHeaders(),
+					body: JSON.stringify({ challengeToken: data.data.challengeToken, code: code || '' }),
+				});
+				data = await verifyResponse.json();
+			}
+
+			if (data.success) {
+				showAlert(`Welcome back, ${data.data.user.name}! Redirecting...`, 'success');
+				setTimeout(() => {
+					window.location.href = '/web/dashboard';
+				}, 1500);
+			} else {
+				showAlert(data.message || 'Sign-in failed. Please request a new link.');
+			}
+		} catch (error) {
+			showAlert('Network error. Please check your connection and try again.');
+			btn.disabled = false;
+		}
+	});
+});
@@ -0,0 +1,45 @@
+function showAlert(message, type = 'error') {
+	const container = document.getElementById('alert-container');
+	const color = type === 'error' ? 'red' : 'green';
+	container.innerHTML = `<div style="border: 1px solid ${color}; background: ${
+		type === 'error' ? '#ffebee' : '#e8f5e8'
+	}; padding: 10px; margin: 10px 0; color: ${color};">${message}</div>`;
+}
+
+document.addEventListener('DOMContentLoaded', function () {
+	document.getElementById('reset-form').addEventListener('submit', async (e) => {
+		e.preventDefault();
+
+		const token = document.getElementById('reset-token').value;
+		const newPassword = document.getElementById('reset-password').value;
+		const btn = document.getElementById('reset-btn');
+		btn.disabled = true;
+
+		try {
+			const response = await fetch('/api/v1/auth/reset-password', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({ token, newPassword }),
+			});
+
+			const data = await response.json();
+
+			if (data.success) {
+				showAlert('Your password has been reset. Redirecting to login...', 'success');
+				setTimeout(() => {
+					window.location.href = '/web/auth';
+				}, 1500);
+			} else {
+				// Password policy errors are objects with a message per failed rule
+				const errors = (data.errors || []).map((error) => error.message || error);
+				showAlert(errors.join(', ') || data.message || 'Password reset failed.');
+				btn.disabled = false;
+			}
+		} catch (error) {
+			showAlert('Network error. Please check your connection and try again.');
+			btn.disabled = false;
+		}
+	});
+});
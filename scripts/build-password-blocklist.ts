@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Turn a plaintext list of breached passwords (one per line) into the hashed
+// blocklist read by the password policy, so no plaintext passwords are stored.
+//
+// Usage: npm run passwords:blocklist -- <plaintext-list> [output-file]
+
+const [input, output = 'data/breached-passwords.txt'] = process.argv.slice(2);
+
+if (!input) {
+	console.error('Usage: npm run passwords:blocklist -- <plaintext-list> [output-file]');
+	process.exit(1);
+}
+
+const hashes = new Set(
+	fs
+		.readFileSync(input, 'utf8')
+		.split(/\r?\n/)
+		.filter((password) => password.length > 0)
+		.map((password) => crypto.createHash('sha1').update(password).digest('hex').toUpperCase())
+);
+
+const header = [
+	'# Known-breached passwords for the password policy blocklist.',
+	'# One uppercase SHA-1 hash per line; an optional ":count" suffix is ignored.',
+	'# Regenerate with: npm run passwords:blocklist -- <plaintext-list>',
+];
+
+fs.writeFileSync(output, [...header, ...[...hashes].sort()].join('\n') + '\n');
+console.log(`✅ Wrote ${hashes.size} hashes to ${output}`);
@@ -8,13 +8,58 @@ export const CONFIG = {
 	PORT: Number(process.env.PORT) || 3000,
 	NODE_ENV: process.env.NODE_ENV || 'development',
 	API_PREFIX: process.env.API_PREFIX || '/api/v1',
+	APP_URL: process.env.APP_URL || `http://localhost:${Number(process.env.PORT) || 3000}`,
 	
 	// Database Configuration
 	DATABASE_URL: process.env.DATABASE_URL || 'file:./dev.db',
 	
 	// Security Configuration
 	JWT_SECRET: process.env.JWT_SECRET || 'your-fallback-secret-for-dev-only',
-	JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '7d',
+	JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m', // Short-lived access tokens
+	// Access token signing: 'HS256' uses JWT_SECRET; 'RS256' or 'ES256' use the key files in JWT_KEYS_DIR
+	// and publish their public keys at /.well-known/jwks.json
+	JWT_ALGORITHM: process.env.JWT_ALGORITHM || 'HS256',
+	JWT_KEYS_DIR: process.env.JWT_KEYS_DIR || 'keys',
+	JWT_ACTIVE_KEY_ID: process.env.JWT_ACTIVE_KEY_ID || '', // Required when the directory holds several private keys
+	REFRESH_TOKEN_EXPIRES_IN_DAYS: Number(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS) || 30,
+	TOKEN_CLEANUP_INTERVAL_MS: Number(process.env.TOKEN_CLEANUP_INTERVAL_MS) || 60 * 60 * 1000, // 1 hour
+	PASSWORD_RESET_EXPIRES_IN_MINUTES: Number(process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES) || 30,
+	MAGIC_LINK_EXPIRES_IN_MINUTES: Number(process.env.MAGIC_LINK_EXPIRES_IN_MINUTES) || 15,
+	INVITATION_EXPIRES_IN_DAYS: Number(process.env.INVITATION_EXPIRES_IN_DAYS) || 7,
+	EMAIL_VERIFICATION_EXPIRES_IN: process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h',
+	// What unverified accounts may do: 'none' (no restriction), 'block-login' or 'restrict-roles'
+	EMAIL_VERIFICATION_POLICY: process.env.EMAIL_VERIFICATION_POLICY || 'none',
+	API_KEY_DEFAULT_EXPIRES_IN_DAYS: Number(process.env.API_KEY_DEFAULT_EXPIRES_IN_DAYS) || 90,
+	API_KEY_MAX_EXPIRES_IN_DAYS: Number(process.env.API_KEY_MAX_EXPIRES_IN_DAYS) || 365,
+	IMPERSONATION_EXPIRES_IN: process.env.IMPERSONATION_EXPIRES_IN || '15m', // Not refreshable
+	SECURITY_EVENT_RETENTION_DAYS: Number(process.env.SECURITY_EVENT_RETENTION_DAYS) || 90, // Login history and other security events
+	ACCOUNT_DELETION_GRACE_PERIOD_DAYS: Number(process.env.ACCOUNT_DELETION_GRACE_PERIOD_DAYS) || 14, // Time to change your mind
+	ACCOUNT_DELETION_CONFIRMATION_EXPIRES_IN: process.env.ACCOUNT_DELETION_CONFIRMATION_EXPIRES_IN || '30m', // Emailed to accounts without a password
+	DELETED_USER_RETENTION_DAYS: Number(process.env.DELETED_USER_RETENTION_DAYS) || 30, // Users deleted through the users API can be restored until then
+	
+	// Password Policy
+	PASSWORD_MIN_LENGTH: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+	PASSWORD_MAX_LENGTH: Number(process.env.PASSWORD_MAX_LENGTH) || 128,
+	PASSWORD_REQUIRE_MIXED_CHARACTERS: process.env.PASSWORD_REQUIRE_MIXED_CHARACTERS !== 'false', // Lowercase, uppercase and a digit
+	PASSWORD_BANNED_SUBSTRINGS: process.env.PASSWORD_BANNED_SUBSTRINGS || '', // Comma-separated, e.g. the product name
+	PASSWORD_BLOCKLIST_FILE: process.env.PASSWORD_BLOCKLIST_FILE || 'data/breached-passwords.txt', // Built with npm run passwords:blocklist
+	// New hashes use this algorithm; older hashes are upgraded on the next successful login
+	PASSWORD_HASH_ALGORITHM: process.env.PASSWORD_HASH_ALGORITHM || 'bcrypt', // 'bcrypt' or 'scrypt'
+	PASSWORD_BCRYPT_COST: Number(process.env.PASSWORD_BCRYPT_COST) || 12,
+	PASSWORD_SCRYPT_LOG_N: Number(process.env.PASSWORD_SCRYPT_LOG_N) || 15, // N = 2^15
+	PASSWORD_SCRYPT_BLOCK_SIZE: Number(process.env.PASSWORD_SCRYPT_BLOCK_SIZE) || 8,
+	PASSWORD_SCRYPT_PARALLELISM: Number(process.env.PASSWORD_SCRYPT_PARALLELISM) || 1,
+	
+	// Two-Factor Authentication
+	TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Express Learning',
+	TWO_FACTOR_CHALLENGE_EXPIRES_IN: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+	TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS: Number(process.env.TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS) || 3, // Codes per challenge
+	REQUIRE_ADMIN_2FA: process.env.REQUIRE_ADMIN_2FA === 'true', // Admins can't use admin capabilities until 2FA is on
+	
+	// Account Lockout (per user, on top of the per-IP authLimiter)
+	LOGIN_LOCKOUT_THRESHOLD: Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5, // Failed attempts before locking
+	LOGIN_LOCKOUT_BASE_SECONDS: Number(process.env.LOGIN_LOCKOUT_BASE_SECONDS) || 60, // Doubles with each further failure
+	LOGIN_LOCKOUT_MAX_SECONDS: Number(process.env.LOGIN_LOCKOUT_MAX_SECONDS) || 24 * 60 * 60, // 24 hours
 	
 	// Rate Limiting
 	RATE_LIMIT_WINDOW_MS: Number(process.env.RATE_LIMIT_WINDOW_MS) || 15 * 60 * 1000, // 15 minutes
@@ -24,6 +69,11 @@ export const CONFIG = {
 	REDIS_URL: process.env.REDIS_URL || 'redis://localhost:6379',
 	CACHE_TTL: Number(process.env.CACHE_TTL) || 300, // 5 minutes
 	
+	// Mail
+	MAIL_FROM: process.env.MAIL_FROM || 'Express Learning <no-reply@example.com>',
+	MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || '', // 'file' or 'memory'; defaults to memory in tests, file otherwise
+	MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || 'mail-outbox',
+	
 	// Logging
 	LOG_LEVEL: process.env.LOG_LEVEL || 'info',
 	
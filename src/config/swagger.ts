@@ -34,6 +34,12 @@ const swaggerDefinition = {
 				bearerFormat: 'JWT',
 				description: 'Enter your Bearer token in the format **Bearer &lt;token&gt;**',
 			},
+			apiKeyAuth: {
+				type: 'apiKey',
+				in: 'header',
+				name: 'X-API-Key',
+				description: 'API key created via /auth/api-keys. Can also be sent as **Authorization: ApiKey &lt;key&gt;**',
+			},
 		},
 		schemas: {
 			ApiResponse: {
@@ -51,6 +57,9 @@ const swaggerDefinition = {
 						type: 'object',
 						description: 'The response payload',
 					},
+					meta: {
+						$ref: '#/components/schemas/PaginationMeta',
+					},
 					timestamp: {
 						type: 'string',
 						format: 'date-time',
@@ -59,8 +68,70 @@ const swaggerDefinition = {
 				},
 				required: ['success', 'message', 'timestamp'],
 			},
+			PaginationMeta: {
+				type: 'object',
+				description: 'Sent with paginated lists. Lists paged by cursor have limit and nextCursor instead of page, pageSize and totalPages.',
+				properties: {
+					page: {
+						type: 'integer',
+						example: 1,
+					},
+					pageSize: {
+						type: 'integer',
+						example: 20,
+					},
+					total: {
+						type: 'integer',
+						description: 'Number of items across all pages',
+						example: 42,
+					},
+					totalPages: {
+						type: 'integer',
+						example: 3,
+					},
+					limit: {
+						type: 'integer',
+						example: 20,
+					},
+					nextCursor: {
+						type: 'string',
+						nullable: true,
+						description: 'Pass as the cursor query parameter to get the next page. Null on the last page.',
+						example: 'eyJjcmVhdGVkQXQiOiIyMDI2LTEwLTE5VDEyOjAwOjAwLjAwMFoiLCJpZCI6NDJ9',
+					},
+				},
+			},
+			UserSearchResult: {
+				type: 'object',
+				properties: {
+					user: {
+						$ref: '#/components/schemas/User',
+					},
+					score: {
+						type: 'number',
+						description: 'Relevance; higher is better. Only meaningful within one search.',
+						example: 3.27,
+					},
+					snippets: {
+						type: 'object',
+						description: 'HTML with the matching words wrapped in <mark>. The rest of the text is escaped.',
+						properties: {
+							name: {
+								type: 'string',
+								example: '<mark>John</mark> <mark>Smith</mark>',
+							},
+							email: {
+								type: 'string',
+								example: '<mark>john</mark>.<mark>smith</mark>@example.com',
+							},
+						},
+					},
+				},
+			},
 			User: {
 				type: 'object',
+				description:
+					'In /users responses, role, isActive, emailVerified and twoFactorEnabled are only included for viewers with the user.read.admin permission (admins by default). The password hash is never included.',
 				properties: {
 					id: {
 						type: 'integer',
@@ -89,6 +160,16 @@ const swaggerDefinition = {
 						description: 'Whether the user account is active',
 						example: true,
 					},
+					emailVerified: {
+						type: 'boolean',
+						description: 'Whether the user has confirmed their email address',
+						example: true,
+					},
+					twoFactorEnabled: {
+						type: 'boolean',
+						description: 'Whether two-factor authentication is enabled',
+						example: false,
+					},
 					createdAt: {
 						type: 'string',
 						format: 'date-time',
@@ -99,6 +180,11 @@ const swaggerDefinition = {
 						format: 'date-time',
 						description: 'User last update timestamp',
 					},
+					deletedAt: {
+						type: 'string',
+						format: 'date-time',
+						description: 'When the user was deleted. Only on deleted users, for viewers with user.read.admin.',
+					},
 				},
 				required: ['id', 'name', 'email', 'role', 'isActive', 'createdAt', 'updatedAt'],
 			},
@@ -160,7 +246,7 @@ const swaggerDefinition = {
 						type: 'string',
 						minLength: 8,
 						maxLength: 128,
-						description: 'Password (must contain at least one lowercase, uppercase, and number)',
+						description: 'Password; must satisfy the password policy (see PasswordPolicyViolation)',
 						example: 'SecurePass123',
 					},
 				},
@@ -183,24 +269,274 @@ const swaggerDefinition = {
 				},
 				required: ['email', 'password'],
 			},
-			AuthResponse: {
+			ChangePasswordRequest: {
 				type: 'object',
 				properties: {
-					user: {
-						$ref: '#/components/schemas/User',
+					currentPassword: {
+						type: 'string',
+						description: 'Current password',
+						example: 'SecurePass123',
+					},
+					newPassword: {
+						type: 'string',
+						minLength: 8,
+						maxLength: 128,
+						description: 'New password; must satisfy the password policy (see PasswordPolicyViolation)',
+						example: 'EvenMoreSecure456',
+					},
+				},
+				required: ['currentPassword', 'newPassword'],
+			},
+			RefreshTokenRequest: {
+				type: 'object',
+				properties: {
+					refreshToken: {
+						type: 'string',
+						description: 'Refresh token returned by login, register or a previous refresh',
 					},
+				},
+				required: ['refreshToken'],
+			},
+			TokenPair: {
+				type: 'object',
+				properties: {
 					token: {
 						type: 'string',
 						description: 'JWT access token',
 						example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
 					},
+					refreshToken: {
+						type: 'string',
+						description: 'Opaque single-use refresh token',
+					},
+					expiresIn: {
+						type: 'string',
+						description: 'Access token expiration time',
+						example: '15m',
+					},
+				},
+				required: ['token', 'refreshToken', 'expiresIn'],
+			},
+			TwoFactorChallenge: {
+				type: 'object',
+				properties: {
+					twoFactorRequired: {
+						type: 'boolean',
+						example: true,
+					},
+					challengeToken: {
+						type: 'string',
+						description: 'Short-lived token to submit to /auth/2fa/verify with a code',
+					},
+					expiresIn: {
+						type: 'string',
+						example: '5m',
+					},
+				},
+				required: ['twoFactorRequired', 'challengeToken', 'expiresIn'],
+			},
+			Session: {
+				type: 'object',
+				properties: {
+					id: {
+						type: 'string',
+						format: 'uuid',
+					},
+					userAgent: {
+						type: 'string',
+						nullable: true,
+						example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0)',
+					},
+					ipAddress: {
+						type: 'string',
+						nullable: true,
+						example: '203.0.113.7',
+					},
+					createdAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+					lastSeenAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+					current: {
+						type: 'boolean',
+						description: 'Whether this is the session making the request',
+					},
+				},
+				required: ['id', 'createdAt', 'lastSeenAt'],
+			},
+			CreateApiKeyRequest: {
+				type: 'object',
+				properties: {
+					name: {
+						type: 'string',
+						maxLength: 100,
+						example: 'Reporting integration',
+					},
+					scopes: {
+						type: 'array',
+						items: {
+							type: 'string',
+							enum: ['users:read', 'users:write'],
+						},
+						example: ['users:read'],
+					},
+					expiresInDays: {
+						type: 'integer',
+						minimum: 1,
+						maximum: 365,
+						description: 'Defaults to 90 days',
+					},
+				},
+				required: ['name', 'scopes'],
+			},
+			ApiKey: {
+				type: 'object',
+				properties: {
+					id: {
+						type: 'integer',
+						example: 1,
+					},
+					name: {
+						type: 'string',
+						example: 'Reporting integration',
+					},
+					prefix: {
+						type: 'string',
+						description: 'First characters of the key, to identify it',
+						example: 'uak_3q2_7wXy',
+					},
+					scopes: {
+						type: 'array',
+						items: {
+							type: 'string',
+						},
+						example: ['users:read'],
+					},
+					expiresAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+					lastUsedAt: {
+						type: 'string',
+						format: 'date-time',
+						nullable: true,
+					},
+					createdAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+				},
+				required: ['id', 'name', 'prefix', 'scopes', 'expiresAt', 'createdAt'],
+			},
+			Impersonation: {
+				type: 'object',
+				description: 'Present while an admin is acting as this user; clients should show a banner',
+				properties: {
+					actor: {
+						type: 'object',
+						properties: {
+							id: {
+								type: 'integer',
+							},
+							name: {
+								type: 'string',
+							},
+							email: {
+								type: 'string',
+								format: 'email',
+							},
+						},
+					},
+					expiresAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+				},
+			},
+			ImpersonationResponse: {
+				type: 'object',
+				properties: {
+					impersonationId: {
+						type: 'string',
+						description: 'Identifies this impersonation in the audit log',
+					},
+					token: {
+						type: 'string',
+						description: 'Access token for the impersonated user. There is no refresh token.',
+					},
 					expiresIn: {
 						type: 'string',
-						description: 'Token expiration time',
-						example: '7d',
+						example: '15m',
+					},
+					user: {
+						$ref: '#/components/schemas/User',
+					},
+					impersonation: {
+						$ref: '#/components/schemas/Impersonation',
 					},
 				},
-				required: ['user', 'token', 'expiresIn'],
+			},
+			JwkSet: {
+				type: 'object',
+				properties: {
+					keys: {
+						type: 'array',
+						items: {
+							type: 'object',
+							properties: {
+								kid: {
+									type: 'string',
+								},
+								kty: {
+									type: 'string',
+									example: 'EC',
+								},
+								alg: {
+									type: 'string',
+									enum: ['RS256', 'ES256'],
+								},
+								use: {
+									type: 'string',
+									example: 'sig',
+								},
+								crv: {
+									type: 'string',
+									example: 'P-256',
+								},
+								x: {
+									type: 'string',
+								},
+								y: {
+									type: 'string',
+								},
+								n: {
+									type: 'string',
+								},
+								e: {
+									type: 'string',
+								},
+							},
+						},
+					},
+				},
+				required: ['keys'],
+			},
+			AuthResponse: {
+				allOf: [
+					{ $ref: '#/components/schemas/TokenPair' },
+					{
+						type: 'object',
+						properties: {
+							user: {
+								$ref: '#/components/schemas/User',
+							},
+						},
+						required: ['user'],
+					},
+				],
 			},
 			Error: {
 				type: 'object',
@@ -217,9 +553,9 @@ const swaggerDefinition = {
 					errors: {
 						type: 'array',
 						items: {
-							type: 'string',
+							oneOf: [{ type: 'string' }, { $ref: '#/components/schemas/PasswordPolicyViolation' }],
 						},
-						description: 'Array of detailed error messages',
+						description: 'Array of detailed error messages, or one entry per failed rule for password policy errors',
 					},
 					timestamp: {
 						type: 'string',
@@ -229,6 +565,246 @@ const swaggerDefinition = {
 				},
 				required: ['success', 'message', 'timestamp'],
 			},
+			Invitation: {
+				type: 'object',
+				properties: {
+					id: {
+						type: 'integer',
+						example: 1,
+					},
+					status: {
+						type: 'string',
+						enum: ['pending', 'expired', 'accepted'],
+						example: 'pending',
+					},
+					user: {
+						type: 'object',
+						properties: {
+							id: {
+								type: 'integer',
+								example: 7,
+							},
+							name: {
+								type: 'string',
+								example: 'Jane Smith',
+							},
+							email: {
+								type: 'string',
+								format: 'email',
+								example: 'jane.smith@example.com',
+							},
+						},
+					},
+					invitedBy: {
+						type: 'object',
+						nullable: true,
+						description: 'Null if the inviter was deleted',
+						properties: {
+							id: {
+								type: 'integer',
+								example: 1,
+							},
+							name: {
+								type: 'string',
+								example: 'John Doe',
+							},
+							email: {
+								type: 'string',
+								format: 'email',
+								example: 'john.doe@example.com',
+							},
+						},
+					},
+					sentAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+					expiresAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+					acceptedAt: {
+						type: 'string',
+						format: 'date-time',
+						nullable: true,
+					},
+				},
+			},
+			AccountExport: {
+				type: 'object',
+				description: 'Everything stored about the user. Password hashes, secrets and token hashes are never included.',
+				properties: {
+					exportedAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+					profile: {
+						allOf: [
+							{ $ref: '#/components/schemas/User' },
+							{
+								type: 'object',
+								properties: {
+									emailVerifiedAt: {
+										type: 'string',
+										format: 'date-time',
+										nullable: true,
+									},
+									deletionScheduledAt: {
+										type: 'string',
+										format: 'date-time',
+										nullable: true,
+									},
+								},
+							},
+						],
+					},
+					sessions: {
+						type: 'array',
+						description: 'Every session, including ended ones (with revokedAt set)',
+						items: {
+							$ref: '#/components/schemas/Session',
+						},
+					},
+					apiKeys: {
+						type: 'array',
+						description: 'Every API key, including revoked ones (with revokedAt set)',
+						items: {
+							$ref: '#/components/schemas/ApiKey',
+						},
+					},
+					twoFactor: {
+						type: 'object',
+						properties: {
+							enabled: {
+								type: 'boolean',
+							},
+							recoveryCodesRemaining: {
+								type: 'integer',
+								example: 8,
+							},
+						},
+					},
+					invitation: {
+						type: 'object',
+						nullable: true,
+						properties: {
+							sentAt: {
+								type: 'string',
+								format: 'date-time',
+							},
+							expiresAt: {
+								type: 'string',
+								format: 'date-time',
+							},
+							acceptedAt: {
+								type: 'string',
+								format: 'date-time',
+								nullable: true,
+							},
+						},
+					},
+					securityEvents: {
+						type: 'array',
+						items: {
+							$ref: '#/components/schemas/SecurityEvent',
+						},
+					},
+					impersonationAuditLog: {
+						type: 'array',
+						description: 'Requests support staff made while acting as the user, and those the user made while acting as others',
+						items: {
+							type: 'object',
+							properties: {
+								impersonationId: {
+									type: 'string',
+								},
+								actorId: {
+									type: 'integer',
+								},
+								targetUserId: {
+									type: 'integer',
+								},
+								method: {
+									type: 'string',
+									example: 'GET',
+								},
+								path: {
+									type: 'string',
+									example: '/api/v1/auth/profile',
+								},
+								statusCode: {
+									type: 'integer',
+									nullable: true,
+									example: 200,
+								},
+								ipAddress: {
+									type: 'string',
+									nullable: true,
+								},
+								createdAt: {
+									type: 'string',
+									format: 'date-time',
+								},
+							},
+						},
+					},
+				},
+			},
+			SecurityEvent: {
+				type: 'object',
+				properties: {
+					id: {
+						type: 'integer',
+						example: 1,
+					},
+					type: {
+						type: 'string',
+						enum: ['login.succeeded', 'login.failed', 'token.refreshed', 'password.changed', 'role.changed'],
+						example: 'login.failed',
+					},
+					ipAddress: {
+						type: 'string',
+						nullable: true,
+						example: '203.0.113.7',
+					},
+					userAgent: {
+						type: 'string',
+						nullable: true,
+						example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0)',
+					},
+					requestId: {
+						type: 'string',
+						nullable: true,
+						description: 'Matches the x-request-id response header and the request logs',
+					},
+					details: {
+						type: 'object',
+						nullable: true,
+						description: 'Depends on the type, e.g. the reason a login failed or the old and new role',
+						example: { reason: 'invalid_password' },
+					},
+					createdAt: {
+						type: 'string',
+						format: 'date-time',
+					},
+				},
+				required: ['id', 'type', 'createdAt'],
+			},
+			PasswordPolicyViolation: {
+				type: 'object',
+				properties: {
+					rule: {
+						type: 'string',
+						enum: ['minLength', 'maxLength', 'characterClasses', 'bannedSubstring', 'breached'],
+						example: 'bannedSubstring',
+					},
+					message: {
+						type: 'string',
+						example: 'Password must not contain "john"',
+					},
+				},
+				required: ['rule', 'message'],
+			},
 		},
 		responses: {
 			UnauthorizedError: {
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '../types';
+import { apiKeyService } from '../services/apiKeyService';
+import { apiKeySchemas } from '../utils/validation';
+
+export const apiKeyController = {
+	async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = apiKeySchemas.create.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const apiKey = await apiKeyService.create(req.user.id, value);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'API key created. Store the key somewhere safe; it will not be shown again',
+				data: apiKey,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(201).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const apiKeys = await apiKeyService.listForUser(req.user.id);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'API keys retrieved successfully',
+				data: apiKeys,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async revoke(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = apiKeySchemas.params.validate(req.params);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const revoked = await apiKeyService.revoke(value.id, req.user.id);
+			if (!revoked) {
+				res.status(404).json({
+					success: false,
+					message: 'API key not found',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'API key revoked successfully',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+};
@@ -1,7 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../types';
 import { authService } from '../services/authService';
-import { authSchemas } from '../utils/validation';
+import { sessionService } from '../services/sessionService';
+import { invitationService } from '../services/invitationService';
+import { accountService } from '../services/accountService';
+import { securityEventService } from '../services/securityEventService';
+import { authSchemas, paginationSchemas, sessionSchemas } from '../utils/validation';
+import { getClientContext } from '../utils/clientContext';
 
 export const authController = {
 	async register(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -17,7 +22,7 @@ export const authController = {
 				return;
 			}
 
-			const authResponse = await authService.register(value);
+			const authResponse = await authService.register(value, getClientContext(req));
 
 			const response: ApiResponse = {
 				success: true,
@@ -45,7 +50,63 @@ export const authController = {
 				return;
 			}
 
-			const authResponse = await authService.login(value);
+			const authResponse = await authService.login(value, getClientContext(req));
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Login successful',
+				data: authResponse,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async requestMagicLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.requestMagicLink.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			await authService.requestMagicLink(value.email);
+
+			// Same response whether or not the account exists
+			const response: ApiResponse = {
+				success: true,
+				message: 'If an account with that email exists, a sign-in link has been sent',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async loginWithMagicLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.magicLinkLogin.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const authResponse = await authService.loginWithMagicLink(value.token, getClientContext(req));
 
 			const response: ApiResponse = {
 				success: true,
@@ -85,6 +146,64 @@ export const authController = {
 	},
 
 	async refreshToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.refreshToken.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const tokens = await authService.rotateRefreshToken(value.refreshToken, getClientContext(req));
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Token refreshed successfully',
+				data: tokens,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user || !req.auth) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			await authService.revokeToken(req.auth);
+
+			// End the whole session so its refresh token can't mint new access tokens
+			if (req.auth.sid) {
+				await sessionService.revoke(req.auth.sid, req.user.id);
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Logged out successfully',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async logoutAll(req: Request, res: Response, next: NextFunction): Promise<void> {
 		try {
 			if (!req.user) {
 				res.status(401).json({
@@ -95,20 +214,428 @@ export const authController = {
 				return;
 			}
 
-			// Generate new token
-			const token = authService.generateToken({
-				userId: req.user.id,
-				email: req.user.email,
-				role: req.user.role,
-			});
+			await authService.revokeAllUserTokens(req.user.id);
 
 			const response: ApiResponse = {
 				success: true,
-				message: 'Token refreshed successfully',
-				data: {
-					token,
-					expiresIn: '7d',
-				},
+				message: 'Logged out from all devices successfully',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async exportAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const data = await accountService.exportData(req.user.id);
+			if (!data) {
+				res.status(404).json({
+					success: false,
+					message: 'User not found',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Account data exported successfully',
+				data,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.attachment(`account-${req.user.id}-export.json`);
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async deleteAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = authSchemas.deleteAccount.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const deletion = await accountService.requestDeletion(req.user.id, value.password);
+
+			const response: ApiResponse = {
+				success: true,
+				message:
+					'confirmationRequired' in deletion
+						? 'Check your email to confirm the deletion'
+						: 'Account scheduled for deletion',
+				data: deletion,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(202).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async confirmAccountDeletion(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.confirmDeletion.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const deletion = await accountService.confirmDeletion(value.token);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Account scheduled for deletion',
+				data: deletion,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(202).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async cancelAccountDeletion(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			await accountService.cancelDeletion(req.user.id);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Account deletion cancelled',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async getSecurityEvents(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = paginationSchemas.query.validate(req.query);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { items, meta } = await securityEventService.listForUser(req.user.id, value.page, value.pageSize);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Security events retrieved successfully',
+				data: items,
+				meta,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async getSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const sessions = await sessionService.listForUser(req.user.id, req.auth?.sid);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Sessions retrieved successfully',
+				data: sessions,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = sessionSchemas.sessionId.validate(req.params);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			// Another user's session is reported as missing rather than forbidden
+			const revoked = await sessionService.revoke(value.id, req.user.id);
+			if (!revoked) {
+				res.status(404).json({
+					success: false,
+					message: 'Session not found',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Session revoked successfully',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async changePassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = authSchemas.changePassword.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const authResponse = await authService.changePassword(
+				req.user.id,
+				value.currentPassword,
+				value.newPassword,
+				getClientContext(req)
+			);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Password changed successfully',
+				data: authResponse,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.forgotPassword.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			await authService.requestPasswordReset(value.email);
+
+			// Same response whether or not the account exists
+			const response: ApiResponse = {
+				success: true,
+				message: 'If an account with that email exists, a password reset link has been sent',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.resetPassword.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			await authService.resetPassword(value.token, value.newPassword, getClientContext(req));
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Password has been reset successfully',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.acceptInvitation.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const authResponse = await invitationService.accept(value.token, value.password, getClientContext(req));
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Invitation accepted successfully',
+				data: authResponse,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.verifyEmail.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const user = await authService.verifyEmail(value.token);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Email verified successfully',
+				data: user,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async resendVerification(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = authSchemas.resendVerification.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			await authService.resendVerificationEmail(value.email);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'If the account exists and is unverified, a new verification link has been sent',
 				timestamp: new Date().toISOString(),
 			};
 
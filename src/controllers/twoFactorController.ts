@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '../types';
+import { twoFactorService } from '../services/twoFactorService';
+import { twoFactorSchemas } from '../utils/validation';
+import { getClientContext } from '../utils/clientContext';
+
+export const twoFactorController = {
+	async setup(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const setup = await twoFactorService.setup(req.user.id);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Scan the provisioning URI with your authenticator app, then confirm with a code',
+				data: setup,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async enable(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = twoFactorSchemas.enable.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const result = await twoFactorService.enable(req.user.id, value.code);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they will not be shown again',
+				data: result,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async disable(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			if (!req.user) {
+				res.status(401).json({
+					success: false,
+					message: 'User not authenticated',
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const { error, value } = twoFactorSchemas.disable.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			await twoFactorService.disable(req.user.id, value.password, value.code);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Two-factor authentication disabled',
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	async verify(req: Request, res: Response, next: NextFunction): Promise<void> {
+		try {
+			const { error, value } = twoFactorSchemas.verify.validate(req.body);
+			if (error) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation error',
+					errors: error.details.map((detail) => detail.message),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			const authResponse = await twoFactorService.completeLogin(value.challengeToken, value.code, getClientContext(req));
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Login successful',
+				data: authResponse,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+};
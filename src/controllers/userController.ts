@@ -2,18 +2,59 @@ import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../types';
 import { AppError } from '../middleware/errorHandler';
 import { userService } from '../services/userService';
+import { authService } from '../services/authService';
+import { sessionService } from '../services/sessionService';
+import { impersonationService } from '../services/impersonationService';
+import { invitationService } from '../services/invitationService';
+import { securityEventService } from '../services/securityEventService';
+import { InvitationStatus } from '../types/auth';
 import { invalidateCache } from '../middleware/performance';
+import { getClientContext } from '../utils/clientContext';
+import { paginationSchemas, userSchemas } from '../utils/validation';
+import { setPaginationLinks } from '../utils/pagination';
+import { serializeSearchResult, serializeUser, serializeUsers } from '../serializers/userSerializer';
 import { Prisma } from '@prisma/client';
 
 export const userController = {
-	getAllUsers: async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+	getAllUsers: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 		try {
-			const users = await userService.getAllUsers();
+			// Already checked by the validate middleware; this converts the numbers, dates and booleans
+			const { limit, cursor, page, pageSize, ...query } = userSchemas.list.validate(req.query).value;
+
+			// Page numbers are used if the client asks for them, cursors otherwise
+			const { items, meta } =
+				page !== undefined || pageSize !== undefined
+					? await userService.getUsersPage(page ?? 1, pageSize ?? 20, query)
+					: await userService.getUsersAfter(limit ?? 20, cursor, query);
+
+			setPaginationLinks(req, res, meta);
 
 			const response: ApiResponse = {
 				success: true,
 				message: 'Users retrieved successfully',
-				data: users,
+				data: serializeUsers(items, req.user),
+				meta,
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	searchUsers: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			// Already checked by the validate middleware; this applies the defaults
+			const { q, page, pageSize } = userSchemas.search.validate(req.query).value;
+			const { items, meta } = await userService.searchUsers(q, page, pageSize);
+
+			setPaginationLinks(req, res, meta);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Users retrieved successfully',
+				data: items.map((result) => serializeSearchResult(result, req.user)),
+				meta,
 				timestamp: new Date().toISOString(),
 			};
 			res.status(200).json(response);
@@ -39,7 +80,7 @@ export const userController = {
 			const response: ApiResponse = {
 				success: true,
 				message: 'User retrieved successfully',
-				data: user,
+				data: serializeUser(user, req.user),
 				timestamp: new Date().toISOString(),
 			};
 			res.status(200).json(response);
@@ -60,13 +101,16 @@ export const userController = {
 
 			const newUser = await userService.createUser({ name, email });
 
+			// The account has no password until the invitee picks one
+			await invitationService.invite(newUser, req.user?.id);
+
 			// Invalidate users cache after creating new user
 			invalidateCache('users*');
 
 			const response: ApiResponse = {
 				success: true,
 				message: 'User created successfully',
-				data: newUser,
+				data: serializeUser(newUser, req.user),
 				timestamp: new Date().toISOString(),
 			};
 			res.status(201).json(response);
@@ -110,7 +154,7 @@ export const userController = {
 			const response: ApiResponse = {
 				success: true,
 				message: 'User updated successfully',
-				data: updatedUser,
+				data: serializeUser(updatedUser, req.user),
 				timestamp: new Date().toISOString(),
 			};
 			res.status(200).json(response);
@@ -145,7 +189,326 @@ export const userController = {
 			const response: ApiResponse = {
 				success: true,
 				message: 'User deleted successfully',
-				data: deletedUser,
+				data: serializeUser(deletedUser, req.user),
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	getDeletedUsers: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			// Already checked by the validate middleware; this applies the defaults
+			const { page, pageSize } = paginationSchemas.query.validate(req.query).value;
+			const { items, meta } = await userService.getDeletedUsers(page, pageSize);
+
+			setPaginationLinks(req, res, meta);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Deleted users retrieved successfully',
+				data: serializeUsers(items, req.user),
+				meta,
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	restoreUser: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const user = await userService.restoreUser(id);
+
+			if (!user) {
+				return next(new AppError('Deleted user not found', 404));
+			}
+
+			invalidateCache('users*');
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'User restored successfully',
+				data: serializeUser(user, req.user),
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			// Someone took the address between the check and the update
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+				return next(new AppError('Another user now has this email address', 409));
+			}
+			next(error);
+		}
+	},
+
+	unlockUser: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const user = await authService.unlockAccount(id);
+
+			if (!user) {
+				return next(new AppError('User not found', 404));
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'User account unlocked successfully',
+				data: serializeUser(user, req.user),
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	updateUserRole: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const user = await authService.updateUserRole(id, req.body.role, req.user!.id, getClientContext(req));
+
+			if (!user) {
+				return next(new AppError('User not found', 404));
+			}
+
+			invalidateCache('users*');
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'User role updated successfully',
+				data: serializeUser(user, req.user),
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	deactivateUser: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const user = await authService.deactivateUser(id, req.user!.id);
+
+			if (!user) {
+				return next(new AppError('User not found', 404));
+			}
+
+			invalidateCache('users*');
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'User account deactivated successfully',
+				data: serializeUser(user, req.user),
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	reactivateUser: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const user = await authService.reactivateUser(id);
+
+			if (!user) {
+				return next(new AppError('User not found', 404));
+			}
+
+			invalidateCache('users*');
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'User account reactivated successfully',
+				data: serializeUser(user, req.user),
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	getInvitations: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const status = req.query.status as InvitationStatus | undefined;
+			const invitations = await invitationService.list(status);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Invitations retrieved successfully',
+				data: invitations,
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	resendInvitation: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const invitationId = parseInt(req.params.invitationId);
+
+			if (isNaN(invitationId)) {
+				return next(new AppError('Invalid invitation ID', 400));
+			}
+
+			const invitation = await invitationService.resend(invitationId);
+
+			if (!invitation) {
+				return next(new AppError('Invitation not found', 404));
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Invitation sent successfully',
+				data: invitation,
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	impersonateUser: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const impersonation = await impersonationService.start(req.user!, id);
+
+			// The start of an impersonation is part of the audit trail too
+			await impersonationService.audit(
+				{ impersonationId: impersonation.impersonationId, actorId: req.user!.id, targetUserId: id },
+				req,
+				res
+			);
+
+			const response: ApiResponse = {
+				success: true,
+				message: `Impersonating ${impersonation.user.email} until ${impersonation.impersonation.expiresAt.toISOString()}`,
+				data: impersonation,
+				timestamp: new Date().toISOString(),
+			};
+			res.status(201).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	getUserSessions: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const user = await userService.getUserById(id);
+
+			if (!user) {
+				return next(new AppError('User not found', 404));
+			}
+
+			const sessions = await sessionService.listForUser(id);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Sessions retrieved successfully',
+				data: sessions,
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	getUserSecurityEvents: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const user = await userService.getUserById(id);
+
+			if (!user) {
+				return next(new AppError('User not found', 404));
+			}
+
+			// Already checked by the validate middleware; this applies the defaults
+			const { page, pageSize } = paginationSchemas.query.validate(req.query).value;
+			const { items, meta } = await securityEventService.listForUser(id, page, pageSize);
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Security events retrieved successfully',
+				data: items,
+				meta,
+				timestamp: new Date().toISOString(),
+			};
+			res.status(200).json(response);
+		} catch (error) {
+			next(error);
+		}
+	},
+
+	revokeUserSession: async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = parseInt(req.params.id);
+
+			if (isNaN(id)) {
+				return next(new AppError('Invalid user ID', 400));
+			}
+
+			const revoked = await sessionService.revoke(req.params.sessionId, id);
+
+			if (!revoked) {
+				return next(new AppError('Session not found', 404));
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message: 'Session revoked successfully',
 				timestamp: new Date().toISOString(),
 			};
 			res.status(200).json(response);
@@ -7,9 +7,14 @@ import { setupPerformance } from './middleware/performance';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { apiRoutes } from './routes';
 import { webRoutes } from './routes/web';
+import { wellKnownRoutes } from './routes/wellKnown';
 import { ApiResponse } from './types';
 import { logStartup, logShutdown } from './lib/logger';
 import { swaggerSpec } from './config/swagger';
+import { scheduleJob, startScheduledJobs, stopScheduledJobs } from './lib/scheduler';
+import { authService } from './services/authService';
+import { accountService } from './services/accountService';
+import { userService } from './services/userService';
 
 const app = express();
 
@@ -66,6 +71,7 @@ app.get('/', (_req, res) => {
 				health: `${CONFIG.API_PREFIX}/health`,
 				users: `${CONFIG.API_PREFIX}/users`,
 				auth: `${CONFIG.API_PREFIX}/auth`,
+				jwks: '/.well-known/jwks.json',
 				docs: '/api-docs',
 				spec: '/api-docs.json',
 			},
@@ -78,6 +84,9 @@ app.get('/', (_req, res) => {
 // Mount API routes
 app.use(CONFIG.API_PREFIX, apiRoutes);
 
+// Mount discovery documents (JWKS) at the site root where verifiers expect them
+app.use('/.well-known', wellKnownRoutes);
+
 // Mount web routes (HTML views)
 app.use('/web', webRoutes);
 
@@ -87,8 +96,14 @@ app.use(notFoundHandler);
 // Global error handler
 app.use(errorHandler);
 
+// Housekeeping jobs
+scheduleJob('purge-expired-tokens', CONFIG.TOKEN_CLEANUP_INTERVAL_MS, () => authService.purgeExpiredTokens());
+scheduleJob('erase-deleted-accounts', CONFIG.TOKEN_CLEANUP_INTERVAL_MS, () => accountService.eraseDueAccounts());
+scheduleJob('purge-deleted-users', CONFIG.TOKEN_CLEANUP_INTERVAL_MS, () => userService.purgeDeletedUsers());
+
 const server = app.listen(CONFIG.PORT, () => {
 	logStartup(CONFIG.PORT, CONFIG.NODE_ENV);
+	startScheduledJobs();
 	if (isDevelopment) {
 		console.log(`📊 Health check: http://localhost:${CONFIG.PORT}${CONFIG.API_PREFIX}/health`);
 		console.log(`📚 API docs: http://localhost:${CONFIG.PORT}/api-docs`);
@@ -99,6 +114,7 @@ const server = app.listen(CONFIG.PORT, () => {
 // Graceful shutdown handling
 const gracefulShutdown = (signal: string) => {
 	logShutdown(signal);
+	stopScheduledJobs();
 
 	server.close((err) => {
 		if (err) {
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CONFIG, isTest } from '../config';
+import { logInfo } from './logger';
+
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+export interface SentMail extends MailMessage {
+	from: string;
+	sentAt: Date;
+}
+
+// Anything that can deliver a message. Swap in an SMTP or API-backed
+// transport for production without touching the services that send mail.
+export interface MailTransport {
+	send(mail: SentMail): Promise<void>;
+}
+
+// Keeps messages in memory so tests can assert on what was sent
+export class MemoryTransport implements MailTransport {
+	public readonly outbox: SentMail[] = [];
+
+	async send(mail: SentMail): Promise<void> {
+		this.outbox.push(mail);
+	}
+
+	clear(): void {
+		this.outbox.length = 0;
+	}
+}
+
+// Writes each message as a JSON file so developers can open the links locally
+export class FileTransport implements MailTransport {
+	constructor(private readonly directory: string) {}
+
+	async send(mail: SentMail): Promise<void> {
+		await fs.mkdir(this.directory, { recursive: true });
+		const fileName = `${mail.sentAt.getTime()}-${Math.random().toString(36).substring(2, 8)}.json`;
+		await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(mail, null, 2));
+		logInfo('Mail written to outbox', { to: mail.to, subject: mail.subject, file: fileName });
+	}
+}
+
+const createDefaultTransport = (): MailTransport => {
+	const transport = CONFIG.MAIL_TRANSPORT || (isTest ? 'memory' : 'file');
+	return transport === 'memory' ? new MemoryTransport() : new FileTransport(CONFIG.MAIL_OUTBOX_DIR);
+};
+
+let transport: MailTransport = createDefaultTransport();
+
+export const mailer = {
+	async send(message: MailMessage): Promise<void> {
+		await transport.send({
+			...message,
+			from: CONFIG.MAIL_FROM,
+			sentAt: new Date(),
+		});
+	},
+
+	getTransport(): MailTransport {
+		return transport;
+	},
+
+	// Replace the transport, e.g. with a MemoryTransport in tests
+	setTransport(nextTransport: MailTransport): void {
+		transport = nextTransport;
+	},
+};
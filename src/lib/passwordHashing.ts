@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import bcrypt from 'bcryptjs';
+import { CONFIG } from '../config';
+import { logError, logWarning } from './logger';
+
+const scrypt = promisify(crypto.scrypt) as (
+	password: crypto.BinaryLike,
+	salt: crypto.BinaryLike,
+	keylen: number,
+	options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Every stored hash names its algorithm and parameters, so hashes made under an
+// older policy keep verifying and can be told apart from current ones.
+export interface PasswordHasher {
+	// Whether the hash is in this hasher's format
+	identifies(hash: string): boolean;
+	hash(password: string): Promise<string>;
+	verify(password: string, hash: string): Promise<boolean>;
+	// Whether a hash in this format was made with weaker parameters than this hasher uses
+	isWeaker(hash: string): boolean;
+}
+
+// Modular crypt format, e.g. "$2b$12$<salt and hash>"; the cost is part of the hash
+export class BcryptHasher implements PasswordHasher {
+	constructor(private readonly cost: number) {}
+
+	identifies(hash: string): boolean {
+		return /^\$2[abxy]\$\d{2}\$/.test(hash);
+	}
+
+	hash(password: string): Promise<string> {
+		return bcrypt.hash(password, this.cost);
+	}
+
+	verify(password: string, hash: string): Promise<boolean> {
+		return bcrypt.compare(password, hash);
+	}
+
+	isWeaker(hash: string): boolean {
+		return bcrypt.getRounds(hash) < this.cost;
+	}
+}
+
+export interface ScryptParameters {
+	logN: number; // CPU and memory cost, as a power of two
+	blockSize: number;
+	parallelism: number;
+}
+
+const SCRYPT_SALT_BYTES = 16;
+const SCRYPT_KEY_BYTES = 32;
+
+// PHC strings use standard base64 without padding
+const toPhcBase64 = (buffer: Buffer): string => buffer.toString('base64').replace(/=+$/, '');
+
+// PHC string format, e.g. "$scrypt$ln=15,r=8,p=1$<base64 salt>$<base64 hash>"
+export class ScryptHasher implements PasswordHasher {
+	constructor(private readonly parameters: ScryptParameters) {}
+
+	identifies(hash: string): boolean {
+		return hash.startsWith('$scrypt$');
+	}
+
+	async hash(password: string): Promise<string> {
+		const { logN, blockSize, parallelism } = this.parameters;
+		const salt = crypto.randomBytes(SCRYPT_SALT_BYTES);
+		const key = await ScryptHasher.derive(password, salt, SCRYPT_KEY_BYTES, this.parameters);
+
+		return `$scrypt$ln=${logN},r=${blockSize},p=${parallelism}$${toPhcBase64(salt)}$${toPhcBase64(key)}`;
+	}
+
+	async verify(password: string, hash: string): Promise<boolean> {
+		const parsed = ScryptHasher.parse(hash);
+		if (!parsed) {
+			return false;
+		}
+
+		const { parameters, salt, key } = parsed;
+		const derived = await ScryptHasher.derive(password, salt, key.length, parameters);
+
+		return crypto.timingSafeEqual(derived, key);
+	}
+
+	isWeaker(hash: string): boolean {
+		const parsed = ScryptHasher.parse(hash);
+		if (!parsed) {
+			return true;
+		}
+
+		const { parameters } = parsed;
+		return (
+			parameters.logN < this.parameters.logN ||
+			parameters.blockSize < this.parameters.blockSize ||
+			parameters.parallelism < this.parameters.parallelism
+		);
+	}
+
+	private static derive(password: string, salt: Buffer, length: number, parameters: ScryptParameters): Promise<Buffer> {
+		const N = 2 ** parameters.logN;
+		return scrypt(password, salt, length, {
+			N,
+			r: parameters.blockSize,
+			p: parameters.parallelism,
+			maxmem: 256 * N * parameters.blockSize, // Node's 32 MB default is too small for ln=15
+		});
+	}
+
+	// Null for a malformed hash. An empty key would compare equal to any password's, so it must not parse.
+	private static parse(hash: string): { parameters: ScryptParameters; salt: Buffer; key: Buffer } | null {
+		const match = /^\$scrypt\$ln=(\d{1,2}),r=(\d{1,3}),p=(\d{1,3})\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/.exec(hash);
+		if (!match) {
+			return null;
+		}
+
+		const [, logN, blockSize, parallelism, salt, key] = match;
+		return {
+			parameters: { logN: Number(logN), blockSize: Number(blockSize), parallelism: Number(parallelism) },
+			salt: Buffer.from(salt, 'base64'),
+			key: Buffer.from(key, 'base64'),
+		};
+	}
+}
+
+const createHasher = (algorithm: string): PasswordHasher => {
+	switch (algorithm) {
+		case 'bcrypt':
+			return new BcryptHasher(CONFIG.PASSWORD_BCRYPT_COST);
+		case 'scrypt':
+			return new ScryptHasher({
+				logN: CONFIG.PASSWORD_SCRYPT_LOG_N,
+				blockSize: CONFIG.PASSWORD_SCRYPT_BLOCK_SIZE,
+				parallelism: CONFIG.PASSWORD_SCRYPT_PARALLELISM,
+			});
+		default:
+			throw new Error(`Unsupported PASSWORD_HASH_ALGORITHM: ${algorithm}`);
+	}
+};
+
+// Every format that can still be verified, whatever the current policy
+const verifiers: PasswordHasher[] = [createHasher('bcrypt'), createHasher('scrypt')];
+
+let hasher: PasswordHasher = createHasher(CONFIG.PASSWORD_HASH_ALGORITHM);
+
+const hasherFor = (hash: string): PasswordHasher | undefined =>
+	[hasher, ...verifiers].find((candidate) => candidate.identifies(hash));
+
+export const passwordHashing = {
+	// Hash with the current policy
+	hash(password: string): Promise<string> {
+		return hasher.hash(password);
+	},
+
+	// A stored hash that can't be verified (unknown format, corrupt, impossible parameters)
+	// counts as a wrong password, so the login fails with 401 instead of a server error
+	async verify(password: string, hash: string): Promise<boolean> {
+		const match = hasherFor(hash);
+		if (!match) {
+			logWarning('Unsupported password hash format');
+			return false;
+		}
+
+		try {
+			return await match.verify(password, hash);
+		} catch (error) {
+			logError('Failed to verify password hash', error as Error);
+			return false;
+		}
+	},
+
+	// True when the hash uses another algorithm or weaker parameters than the current policy
+	needsRehash(hash: string): boolean {
+		return !hasher.identifies(hash) || hasher.isWeaker(hash);
+	},
+
+	getHasher(): PasswordHasher {
+		return hasher;
+	},
+
+	// Replace the current policy, e.g. with cheap parameters in tests
+	setHasher(nextHasher: PasswordHasher): void {
+		hasher = nextHasher;
+	},
+};
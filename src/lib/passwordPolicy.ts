@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { CONFIG } from '../config';
+import { logWarning } from './logger';
+
+export type PasswordRule = 'minLength' | 'maxLength' | 'characterClasses' | 'bannedSubstring' | 'breached';
+
+export interface PasswordPolicyViolation {
+	rule: PasswordRule;
+	message: string;
+}
+
+// Details about the account, so passwords built from them can be refused
+export interface PasswordContext {
+	name?: string;
+	email?: string;
+}
+
+// Shorter fragments (initials, "jo") would reject too many reasonable passwords
+const MIN_BANNED_SUBSTRING_LENGTH = 3;
+
+let blocklist: Set<string> | undefined;
+
+// SHA-1 hashes in uppercase hex, one per line, optionally followed by ":count"
+// as in the Have I Been Pwned downloads. Read once, on first use; never fetched over the network.
+const loadBlocklist = (): Set<string> => {
+	if (blocklist) {
+		return blocklist;
+	}
+
+	blocklist = new Set();
+	if (!CONFIG.PASSWORD_BLOCKLIST_FILE) {
+		return blocklist;
+	}
+
+	try {
+		for (const line of fs.readFileSync(CONFIG.PASSWORD_BLOCKLIST_FILE, 'utf8').split(/\r?\n/)) {
+			const hash = line.split(':')[0].trim().toUpperCase();
+			if (hash && !hash.startsWith('#')) {
+				blocklist.add(hash);
+			}
+		}
+	} catch (error) {
+		logWarning('Breached password blocklist could not be loaded', {
+			file: CONFIG.PASSWORD_BLOCKLIST_FILE,
+			error: (error as Error).message,
+		});
+	}
+
+	return blocklist;
+};
+
+export const isBreachedPassword = (password: string): boolean =>
+	loadBlocklist().has(crypto.createHash('sha1').update(password).digest('hex').toUpperCase());
+
+// Words the password may not contain: the configured list plus parts of the user's name and email
+const bannedSubstrings = (context: PasswordContext): string[] => {
+	const [localPart = '', domain = ''] = (context.email ?? '').toLowerCase().split('@');
+
+	const terms = [
+		...CONFIG.PASSWORD_BANNED_SUBSTRINGS.split(','),
+		...(context.name ?? '').toLowerCase().split(/\s+/),
+		localPart,
+		...localPart.split(/[._+-]/),
+		domain.split('.')[0],
+	].map((term) => term.trim().toLowerCase());
+
+	return [...new Set(terms)].filter((term) => term.length >= MIN_BANNED_SUBSTRING_LENGTH);
+};
+
+// Returns every rule the password breaks, so clients can show them all at once
+export const checkPassword = (password: string, context: PasswordContext = {}): PasswordPolicyViolation[] => {
+	const violations: PasswordPolicyViolation[] = [];
+
+	if (password.length < CONFIG.PASSWORD_MIN_LENGTH) {
+		violations.push({
+			rule: 'minLength',
+			message: `Password must be at least ${CONFIG.PASSWORD_MIN_LENGTH} characters long`,
+		});
+	}
+
+	if (password.length > CONFIG.PASSWORD_MAX_LENGTH) {
+		violations.push({
+			rule: 'maxLength',
+			message: `Password cannot exceed ${CONFIG.PASSWORD_MAX_LENGTH} characters`,
+		});
+	}
+
+	if (CONFIG.PASSWORD_REQUIRE_MIXED_CHARACTERS && !/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
+		violations.push({
+			rule: 'characterClasses',
+			message: 'Password must contain at least one lowercase letter, one uppercase letter, and one number',
+		});
+	}
+
+	const lowerPassword = password.toLowerCase();
+	for (const term of bannedSubstrings(context)) {
+		if (lowerPassword.includes(term)) {
+			violations.push({
+				rule: 'bannedSubstring',
+				message: `Password must not contain "${term}"`,
+			});
+		}
+	}
+
+	if (isBreachedPassword(password)) {
+		violations.push({
+			rule: 'breached',
+			message: 'This password has appeared in a data breach and cannot be used',
+		});
+	}
+
+	return violations;
+};
@@ -0,0 +1,46 @@
+import { logError, logInfo } from './logger';
+
+// Minimal in-process job scheduler for periodic housekeeping tasks.
+// In a multi-instance deployment you'd move these to a dedicated worker or cron.
+interface ScheduledJob {
+	name: string;
+	intervalMs: number;
+	task: () => Promise<unknown>;
+	timer?: NodeJS.Timeout;
+}
+
+const jobs = new Map<string, ScheduledJob>();
+
+const runJob = async (job: ScheduledJob): Promise<void> => {
+	try {
+		const result = await job.task();
+		logInfo(`Scheduled job "${job.name}" completed`, { result });
+	} catch (error) {
+		logError(`Scheduled job "${job.name}" failed`, error as Error);
+	}
+};
+
+export const scheduleJob = (name: string, intervalMs: number, task: () => Promise<unknown>): void => {
+	jobs.set(name, { name, intervalMs, task });
+};
+
+export const startScheduledJobs = (): void => {
+	jobs.forEach((job) => {
+		if (job.timer) {
+			return;
+		}
+
+		job.timer = setInterval(() => runJob(job), job.intervalMs);
+		// Don't keep the process alive just for housekeeping
+		job.timer.unref();
+	});
+};
+
+export const stopScheduledJobs = (): void => {
+	jobs.forEach((job) => {
+		if (job.timer) {
+			clearInterval(job.timer);
+			job.timer = undefined;
+		}
+	});
+};
@@ -0,0 +1,144 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CONFIG, isProduction } from '../config';
+import { logWarning } from './logger';
+
+export type AsymmetricAlgorithm = 'RS256' | 'ES256';
+
+export interface SigningKey {
+	kid: string;
+	alg: AsymmetricAlgorithm;
+	publicKey: KeyObject;
+	privateKey?: KeyObject; // Absent for retired keys that are only kept to verify tokens
+}
+
+// The algorithm follows from the key itself, so old RS256 keys keep verifying after a switch to ES256
+const algorithmFor = (key: KeyObject): AsymmetricAlgorithm => {
+	if (key.asymmetricKeyType === 'rsa') {
+		return 'RS256';
+	}
+
+	if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+		return 'ES256';
+	}
+
+	throw new Error(`Unsupported signing key type: ${key.asymmetricKeyType}`);
+};
+
+export class KeyStore {
+	private readonly keys = new Map<string, SigningKey>();
+
+	constructor(
+		keys: SigningKey[],
+		private readonly activeKid: string | null
+	) {
+		for (const key of keys) {
+			this.keys.set(key.kid, key);
+		}
+
+		if (activeKid && !this.keys.get(activeKid)?.privateKey) {
+			throw new Error(`No private key found for active signing key "${activeKid}"`);
+		}
+	}
+
+	// The key new tokens are signed with, or null when signing with the HS256 secret
+	get signingKey(): SigningKey | null {
+		return this.activeKid ? this.keys.get(this.activeKid)! : null;
+	}
+
+	getVerificationKey(kid: string): SigningKey | undefined {
+		return this.keys.get(kid);
+	}
+
+	// Public halves of every key, in RFC 7517 JWK Set format
+	toJwks(): { keys: JsonWebKey[] } {
+		return {
+			keys: [...this.keys.values()].map((key) => ({
+				...key.publicKey.export({ format: 'jwk' }),
+				kid: key.kid,
+				alg: key.alg,
+				use: 'sig',
+			})),
+		};
+	}
+
+	// Load "<kid>.pem" files. Private keys can sign; public-only files are retired keys that still verify.
+	static fromDirectory(directory: string, activeKid?: string): KeyStore {
+		const keys: SigningKey[] = fs
+			.readdirSync(directory)
+			.filter((file) => file.endsWith('.pem'))
+			.sort()
+			.map((file) => {
+				const kid = path.basename(file, '.pem');
+				const pem = fs.readFileSync(path.join(directory, file), 'utf8');
+
+				if (pem.includes('PRIVATE KEY')) {
+					const privateKey = crypto.createPrivateKey(pem);
+					const publicKey = crypto.createPublicKey(privateKey);
+					return { kid, alg: algorithmFor(publicKey), publicKey, privateKey };
+				}
+
+				const publicKey = crypto.createPublicKey(pem);
+				return { kid, alg: algorithmFor(publicKey), publicKey };
+			});
+
+		if (!activeKid) {
+			const privateKeys = keys.filter((key) => key.privateKey);
+			if (privateKeys.length !== 1) {
+				throw new Error('Set JWT_ACTIVE_KEY_ID to choose which signing key to use');
+			}
+			activeKid = privateKeys[0].kid;
+		}
+
+		return new KeyStore(keys, activeKid);
+	}
+
+	static generate(alg: AsymmetricAlgorithm, kid: string = crypto.randomUUID()): KeyStore {
+		const { privateKey, publicKey } =
+			alg === 'RS256'
+				? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+				: crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+		return new KeyStore([{ kid, alg, publicKey, privateKey }], kid);
+	}
+}
+
+const createDefaultKeyStore = (): KeyStore => {
+	if (CONFIG.JWT_ALGORITHM === 'HS256') {
+		return new KeyStore([], null);
+	}
+
+	if (CONFIG.JWT_ALGORITHM !== 'RS256' && CONFIG.JWT_ALGORITHM !== 'ES256') {
+		throw new Error(`Unsupported JWT_ALGORITHM: ${CONFIG.JWT_ALGORITHM}`);
+	}
+
+	if (fs.existsSync(CONFIG.JWT_KEYS_DIR)) {
+		const keyStore = KeyStore.fromDirectory(CONFIG.JWT_KEYS_DIR, CONFIG.JWT_ACTIVE_KEY_ID || undefined);
+		if (keyStore.signingKey!.alg !== CONFIG.JWT_ALGORITHM) {
+			throw new Error(`Active signing key is not a ${CONFIG.JWT_ALGORITHM} key`);
+		}
+		return keyStore;
+	}
+
+	if (isProduction) {
+		throw new Error(`JWT_KEYS_DIR (${CONFIG.JWT_KEYS_DIR}) must contain the signing keys in production`);
+	}
+
+	// Tokens signed with a throwaway key stop verifying on restart, which is fine for development
+	logWarning('No JWT signing keys found, generating an ephemeral key', { algorithm: CONFIG.JWT_ALGORITHM });
+	return KeyStore.generate(CONFIG.JWT_ALGORITHM);
+};
+
+let keyStore: KeyStore = createDefaultKeyStore();
+
+export const signingKeys = {
+	getKeyStore(): KeyStore {
+		return keyStore;
+	},
+
+	// Replace the key store, e.g. with generated keys in tests
+	setKeyStore(nextKeyStore: KeyStore): void {
+		keyStore = nextKeyStore;
+	},
+};
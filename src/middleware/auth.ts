@@ -1,22 +1,128 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/authService';
+import { sessionService } from '../services/sessionService';
+import { apiKeyService } from '../services/apiKeyService';
+import { permissionService } from '../services/permissionService';
+import { impersonationService } from '../services/impersonationService';
 import { AppError } from './errorHandler';
-import { AuthenticatedUser } from '../types/auth';
-
-// Import UserRole from the generated Prisma client
-import { UserRole } from '@prisma/client';
+import {
+	ApiKeyContext,
+	ApiKeyScope,
+	AuthenticatedUser,
+	ImpersonationInfo,
+	JwtPayload,
+	PermissionKey,
+	RequestUser,
+} from '../types/auth';
+import { CONFIG } from '../config';
+import { getCookie, webCookieOptions } from '../utils/cookies';
 
 // Extend Express Request interface to include user
 declare global {
 	namespace Express {
 		interface Request {
-			user?: AuthenticatedUser;
+			user?: RequestUser;
+			auth?: JwtPayload;
+			apiKey?: ApiKeyContext;
+			webSessionId?: string;
 		}
 	}
 }
 
-export const authenticateToken = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+// API keys are sent as "X-API-Key: <key>" or "Authorization: ApiKey <key>"
+const getApiKey = (req: Request): string | undefined => {
+	const headerKey = req.get('X-API-Key');
+	if (headerKey) {
+		return headerKey;
+	}
+
+	const [scheme, credentials] = (req.headers.authorization || '').split(' ');
+	return scheme === 'ApiKey' ? credentials : undefined;
+};
+
+// Reasons an account's role capabilities are withheld even though it holds the role
+const getRoleRestriction = (user: AuthenticatedUser): string | null => {
+	if (CONFIG.EMAIL_VERIFICATION_POLICY === 'restrict-roles' && !user.emailVerified) {
+		return 'Email verification required';
+	}
+
+	if (CONFIG.REQUIRE_ADMIN_2FA && user.role === 'ADMIN' && !user.twoFactorEnabled) {
+		return 'Two-factor authentication must be enabled for admin accounts';
+	}
+
+	return null;
+};
+
+// Resolve the permissions in effect for the user's role. A restricted account
+// only gets what the base USER role gets until the restriction is lifted.
+const withPermissions = async (user: AuthenticatedUser): Promise<RequestUser> => {
+	const role = getRoleRestriction(user) ? 'USER' : user.role;
+	return { ...user, permissions: await permissionService.getPermissionsForRole(role) };
+};
+
+// Verify a bearer token and attach the user it acts for. Shared by authenticateToken and
+// optionalAuth so that impersonation is re-checked and audited whichever one a route uses.
+const authenticateBearerToken = async (token: string, req: Request, res: Response): Promise<void> => {
+	// Verify token
+	const decoded = authService.verifyToken(token);
+
+	// Reject tokens that were logged out before they expired
+	if (await authService.isTokenRevoked(decoded)) {
+		throw new AppError('Token has been revoked', 401);
+	}
+
+	// Get user from database to ensure they still exist and are active
+	const user = await authService.getUserById(decoded.userId);
+	if (!user) {
+		throw new AppError('User not found or inactive', 401);
+	}
+
+	if (decoded.sid) {
+		await sessionService.touch(decoded.sid, { ipAddress: req.ip });
+	}
+
+	let impersonation: ImpersonationInfo | undefined;
+	if (decoded.act) {
+		// The impersonating admin must still be active and still allowed to impersonate
+		const actor = await authService.getUserById(decoded.act.userId);
+		if (!actor || !(await withPermissions(actor)).permissions.includes('user.impersonate')) {
+			throw new AppError('Impersonation is no longer allowed', 401);
+		}
+
+		impersonation = {
+			actor: { id: actor.id, name: actor.name, email: actor.email },
+			expiresAt: new Date(decoded.exp! * 1000),
+		};
+		res.set('X-Impersonated-By', String(actor.id));
+
+		await impersonationService.audit(
+			{ impersonationId: decoded.jti!, actorId: actor.id, targetUserId: user.id },
+			req,
+			res
+		);
+	}
+
+	// Attach user and token claims to request
+	req.user = { ...(await withPermissions(user)), impersonation };
+	req.auth = decoded;
+};
+
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 	try {
+		const apiKey = getApiKey(req);
+		if (apiKey) {
+			// The key acts as its owner, limited to its scopes (see requireScope)
+			const result = await apiKeyService.authenticate(apiKey);
+			const owner = await authService.getUserById(result.userId);
+			if (!owner) {
+				return next(new AppError('User not found or inactive', 401));
+			}
+
+			req.user = await withPermissions(owner);
+			req.apiKey = result.apiKey;
+			return next();
+		}
+
 		const authHeader = req.headers.authorization;
 		const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -24,17 +130,7 @@ export const authenticateToken = async (req: Request, _res: Response, next: Next
 			return next(new AppError('Access token is required', 401));
 		}
 
-		// Verify token
-		const decoded = authService.verifyToken(token);
-
-		// Get user from database to ensure they still exist and are active
-		const user = await authService.getUserById(decoded.userId);
-		if (!user) {
-			return next(new AppError('User not found or inactive', 401));
-		}
-
-		// Attach user to request
-		req.user = user;
+		await authenticateBearerToken(token, req, res);
 		next();
 	} catch (error) {
 		if (error instanceof AppError) {
@@ -44,17 +140,13 @@ export const authenticateToken = async (req: Request, _res: Response, next: Next
 	}
 };
 
-export const optionalAuth = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 	try {
 		const authHeader = req.headers.authorization;
 		const token = authHeader && authHeader.split(' ')[1];
 
 		if (token) {
-			const decoded = authService.verifyToken(token);
-			const user = await authService.getUserById(decoded.userId);
-			if (user) {
-				req.user = user;
-			}
+			await authenticateBearerToken(token, req, res);
 		}
 		next();
 	} catch (error) {
@@ -63,40 +155,115 @@ export const optionalAuth = async (req: Request, _res: Response, next: NextFunct
 	}
 };
 
-export const requireRole = (...roles: (UserRole | string)[]) => {
+const WEB_SESSION_COOKIE = 'web_session';
+
+export const setWebSessionCookie = (res: Response, webToken: string): void => {
+	res.cookie(WEB_SESSION_COOKIE, webToken, {
+		...webCookieOptions,
+		maxAge: CONFIG.REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000,
+	});
+};
+
+export const clearWebSessionCookie = (res: Response): void => {
+	res.clearCookie(WEB_SESSION_COOKIE, webCookieOptions);
+};
+
+// Attach the signed-in user for web UI requests that carry a session cookie.
+// Views get it as `currentUser`, which is null for anonymous visitors.
+export const loadWebSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+	try {
+		const webToken = getCookie(req, WEB_SESSION_COOKIE);
+		if (webToken) {
+			const session = await authService.getWebSession(webToken);
+			const user = session && (await authService.getUserById(session.userId));
+
+			if (session && user) {
+				await sessionService.touch(session.id, { ipAddress: req.ip });
+				req.user = await withPermissions(user);
+				req.webSessionId = session.id;
+			} else {
+				clearWebSessionCookie(res);
+			}
+		}
+
+		res.locals.currentUser = req.user ?? null;
+		next();
+	} catch (error) {
+		next(error);
+	}
+};
+
+// Pages send anonymous visitors to the login page; form posts and scripts get a 401
+export const requireWebSession = (req: Request, res: Response, next: NextFunction): void => {
+	if (req.webSessionId) {
+		return next();
+	}
+
+	if (req.method === 'GET') {
+		return res.redirect('/web/auth');
+	}
+
+	next(new AppError('Authentication required', 401));
+};
+
+// Limit what API keys may do. Requests authenticated with a JWT are not scope-limited.
+export const requireScope = (...scopes: ApiKeyScope[]) => {
 	return (req: Request, _res: Response, next: NextFunction): void => {
 		if (!req.user) {
 			return next(new AppError('Authentication required', 401));
 		}
 
-		if (!roles.includes(req.user.role)) {
-			return next(new AppError('Insufficient permissions', 403));
+		const missing = req.apiKey ? scopes.filter((scope) => !req.apiKey!.scopes.includes(scope)) : [];
+		if (missing.length > 0) {
+			return next(new AppError(`API key is missing required scope: ${missing.join(', ')}`, 403));
 		}
 
 		next();
 	};
 };
 
-// Helper functions that avoid module-level enum access
-export const requireAdmin = (req: Request, _res: Response, next: NextFunction): void => {
-	return requireRole('ADMIN' as any)(req, _res, next);
+// Account management needs an interactive login, so keys can't be used to e.g. mint more keys
+export const rejectApiKeys = (req: Request, _res: Response, next: NextFunction): void => {
+	if (getApiKey(req)) {
+		return next(new AppError('API keys cannot be used for this endpoint', 403));
+	}
+
+	next();
 };
 
-export const requireAdminOrModerator = (req: Request, _res: Response, next: NextFunction): void => {
-	return requireRole('ADMIN' as any, 'MODERATOR' as any)(req, _res, next);
+// For actions only the account holder may take, never support staff acting as them
+export const forbidImpersonation = (req: Request, _res: Response, next: NextFunction): void => {
+	if (req.auth?.act) {
+		return next(new AppError('This action is not available while impersonating', 403));
+	}
+
+	next();
 };
 
-export const requireOwnershipOrAdmin = (getUserId: (req: Request) => number) => {
+export const requirePermission = (...permissions: PermissionKey[]) => {
 	return (req: Request, _res: Response, next: NextFunction): void => {
 		if (!req.user) {
 			return next(new AppError('Authentication required', 401));
 		}
 
-		const resourceUserId = getUserId(req);
-		const isOwner = req.user.id === resourceUserId;
-		const isAdmin = req.user.role === 'ADMIN';
+		if (!permissions.every((permission) => req.user!.permissions.includes(permission))) {
+			// Explain why, when the role would normally allow it
+			return next(new AppError(getRoleRestriction(req.user) ?? 'Insufficient permissions', 403));
+		}
+
+		next();
+	};
+};
+
+// Owners can always act on their own resource; anyone else needs the permission
+export const requireOwnershipOrPermission = (permission: PermissionKey, getUserId: (req: Request) => number) => {
+	return (req: Request, _res: Response, next: NextFunction): void => {
+		if (!req.user) {
+			return next(new AppError('Authentication required', 401));
+		}
 
-		if (!isOwner && !isAdmin) {
+		const isOwner = req.user.id === getUserId(req);
+		if (!isOwner && !req.user.permissions.includes(permission)) {
 			return next(new AppError('Access denied', 403));
 		}
 
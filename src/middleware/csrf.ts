@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { CONFIG } from '../config';
+import { AppError } from './errorHandler';
+import { getCookie, webCookieOptions } from '../utils/cookies';
+
+const CSRF_SECRET_COOKIE = 'csrf_secret';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// The token is derived from a per-browser secret kept in an httpOnly cookie. Another
+// site can make the browser send the cookie but can't read the page to learn the token.
+const tokenFor = (secret: string): string =>
+	crypto.createHmac('sha256', CONFIG.JWT_SECRET).update(`csrf:${secret}`).digest('base64url');
+
+const tokensMatch = (submitted: string, expected: string): boolean =>
+	submitted.length === expected.length && crypto.timingSafeEqual(Buffer.from(submitted), Buffer.from(expected));
+
+// Expose the token to views as `csrfToken` and require it on every state-changing request.
+// Forms send it as the `_csrf` field, scripts as the X-CSRF-Token header.
+export const csrfProtection = (req: Request, res: Response, next: NextFunction): void => {
+	let secret = getCookie(req, CSRF_SECRET_COOKIE);
+	if (!secret) {
+		secret = crypto.randomBytes(32).toString('base64url');
+		res.cookie(CSRF_SECRET_COOKIE, secret, webCookieOptions);
+	}
+
+	const expected = tokenFor(secret);
+	res.locals.csrfToken = expected;
+
+	if (SAFE_METHODS.includes(req.method)) {
+		return next();
+	}
+
+	const submitted = req.body?._csrf ?? req.get('X-CSRF-Token');
+	if (typeof submitted !== 'string' || !tokensMatch(submitted, expected)) {
+		return next(new AppError('Invalid or missing CSRF token', 403));
+	}
+
+	next();
+};
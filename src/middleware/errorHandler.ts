@@ -15,6 +15,16 @@ export class AppError extends Error {
 	}
 }
 
+// A 400 that carries details about each problem, returned to the client as "errors"
+export class ValidationError extends AppError {
+	public errors: unknown[];
+
+	constructor(message: string, errors: unknown[]) {
+		super(message, 400);
+		this.errors = errors;
+	}
+}
+
 export const errorHandler = (err: AppError | Error, req: Request, res: Response, _next: NextFunction): void => {
 	const statusCode = err instanceof AppError ? err.statusCode : 500;
 
@@ -24,6 +34,10 @@ export const errorHandler = (err: AppError | Error, req: Request, res: Response,
 		timestamp: new Date().toISOString(),
 	};
 
+	if (err instanceof ValidationError) {
+		errorResponse.errors = err.errors;
+	}
+
 	// Add stack trace in development
 	if (isDevelopment) {
 		errorResponse.stack = err.stack;
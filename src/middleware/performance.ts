@@ -77,8 +77,10 @@ export const cacheMiddleware = (ttlSeconds: number = 300, keyGenerator?: (req: R
 			return next();
 		}
 
-		// Generate cache key
-		const defaultKey = `${req.method}:${req.originalUrl}:${JSON.stringify(req.query)}`;
+		// Generate cache key. What a response shows can depend on the viewer's permissions
+		// (see serializeUser), so a response is only reused for viewers with the same ones.
+		const viewer = req.user?.permissions.join(',') ?? 'anonymous';
+		const defaultKey = `${req.method}:${req.originalUrl}:${JSON.stringify(req.query)}:${viewer}`;
 		const cacheKey = keyGenerator ? keyGenerator(req) : defaultKey;
 
 		// Try to get from cache
@@ -88,7 +90,11 @@ export const cacheMiddleware = (ttlSeconds: number = 300, keyGenerator?: (req: R
 			if (!res.headersSent) {
 				res.setHeader('X-Cache', 'HIT');
 			}
-			res.json(cachedData);
+			// Pagination links are part of the response too
+			if (cachedData.link && !res.headersSent) {
+				res.setHeader('Link', cachedData.link);
+			}
+			res.json(cachedData.body);
 			return;
 		}
 
@@ -97,7 +103,7 @@ export const cacheMiddleware = (ttlSeconds: number = 300, keyGenerator?: (req: R
 		res.json = function (data: any) {
 			// Only cache successful responses
 			if (res.statusCode >= 200 && res.statusCode < 300) {
-				cache.set(cacheKey, data, ttlSeconds);
+				cache.set(cacheKey, { body: data, link: res.getHeader('Link') }, ttlSeconds);
 				logger.debug('Response cached', { cacheKey, url: req.originalUrl, ttl: ttlSeconds });
 			}
 
@@ -1,7 +1,21 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { MemoryStore } from 'express-rate-limit';
 import slowDown from 'express-slow-down';
 import { CONFIG } from '../config';
 
+// Every limiter gets its own store (they can't be shared) and keeps track of it here
+const stores: MemoryStore[] = [];
+
+const memoryStore = (): MemoryStore => {
+  const store = new MemoryStore();
+  stores.push(store);
+  return store;
+};
+
+// Forget all recorded hits, e.g. so tests don't depend on how many requests ran before them
+export const resetRateLimits = async (): Promise<void> => {
+  await Promise.all(stores.map((store) => store.resetAll()));
+};
+
 // General API rate limiting
 export const generalLimiter = rateLimit({
   windowMs: CONFIG.RATE_LIMIT_WINDOW_MS, // 15 minutes
@@ -12,6 +26,7 @@ export const generalLimiter = rateLimit({
     retryAfter: Math.ceil(CONFIG.RATE_LIMIT_WINDOW_MS / 1000 / 60), // minutes
     timestamp: new Date().toISOString(),
   },
+  store: memoryStore(),
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
   skip: (req) => {
@@ -30,6 +45,7 @@ export const authLimiter = rateLimit({
     retryAfter: 15, // minutes
     timestamp: new Date().toISOString(),
   },
+  store: memoryStore(),
   standardHeaders: true,
   legacyHeaders: false,
   skipSuccessfulRequests: true, // Don't count successful requests
@@ -45,6 +61,7 @@ export const userModificationLimiter = rateLimit({
     retryAfter: 60, // minutes
     timestamp: new Date().toISOString(),
   },
+  store: memoryStore(),
   standardHeaders: true,
   legacyHeaders: false,
 });
@@ -55,6 +72,7 @@ export const speedLimiter = slowDown({
   delayAfter: 50, // Allow 50 requests per window at full speed
   delayMs: (hits) => hits * 100, // Add 100ms delay per request after delayAfter
   maxDelayMs: 5000, // Maximum delay of 5 seconds
+  store: memoryStore(),
 });
 
 // Strict rate limiting for password reset/change operations
@@ -67,6 +85,7 @@ export const passwordOperationsLimiter = rateLimit({
     retryAfter: 60, // minutes
     timestamp: new Date().toISOString(),
   },
+  store: memoryStore(),
   standardHeaders: true,
   legacyHeaders: false,
 });
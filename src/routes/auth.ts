@@ -1,16 +1,21 @@
 import { Router } from 'express';
 import { authController } from '../controllers/authController';
-import { authenticateToken } from '../middleware/auth';
-import { authLimiter } from '../middleware/rateLimiting';
+import { twoFactorController } from '../controllers/twoFactorController';
+import { apiKeyController } from '../controllers/apiKeyController';
+import { authenticateToken, forbidImpersonation, rejectApiKeys } from '../middleware/auth';
+import { authLimiter, passwordOperationsLimiter } from '../middleware/rateLimiting';
 
 const router = Router();
 
+// Account management is only available to interactive logins
+router.use(rejectApiKeys);
+
 /**
  * @swagger
  * /auth/register:
  *   post:
  *     summary: Register a new user
- *     description: Create a new user account with email and password
+ *     description: Create a new user account with email and password and send a verification email. When EMAIL_VERIFICATION_POLICY is block-login no tokens are returned until the email is verified.
  *     tags: [Authentication]
  *     security: []
  *     requestBody:
@@ -48,7 +53,7 @@ router.post('/register', authLimiter, authController.register);
  * /auth/login:
  *   post:
  *     summary: User login
- *     description: Authenticate user with email and password
+ *     description: Authenticate user with email and password. Accounts with two-factor authentication receive a short-lived challenge token instead, to be completed via /auth/2fa/verify.
  *     tags: [Authentication]
  *     security: []
  *     requestBody:
@@ -67,11 +72,19 @@ router.post('/register', authLimiter, authController.register);
  *                 - $ref: '#/components/schemas/ApiResponse'
  *                 - properties:
  *                     data:
- *                       $ref: '#/components/schemas/AuthResponse'
+ *                       oneOf:
+ *                         - $ref: '#/components/schemas/AuthResponse'
+ *                         - $ref: '#/components/schemas/TwoFactorChallenge'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  *       401:
- *         description: Invalid credentials
+ *         description: Invalid credentials (also returned while the account is temporarily locked after repeated failures)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Email address has not been verified (when EMAIL_VERIFICATION_POLICY is block-login)
  *         content:
  *           application/json:
  *             schema:
@@ -81,12 +94,340 @@ router.post('/register', authLimiter, authController.register);
  */
 router.post('/login', authLimiter, authController.login);
 
+/**
+ * @swagger
+ * /auth/magic-link:
+ *   post:
+ *     summary: Request a sign-in link
+ *     description: Email a single-use link that signs the user in without a password. Also works for accounts that have no password. The response is identical whether or not the account exists.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@example.com
+ *             required: [email]
+ *     responses:
+ *       200:
+ *         description: Sign-in link sent if the account exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/magic-link', authLimiter, authController.requestMagicLink);
+
+/**
+ * @swagger
+ * /auth/magic-link/verify:
+ *   post:
+ *     summary: Sign in with a magic link
+ *     description: Exchange the token from a sign-in link for an access and refresh token. Tokens expire after MAGIC_LINK_EXPIRES_IN_MINUTES and can only be used once. Opening the link also verifies the email address. Accounts with two-factor authentication receive a challenge token instead, as with /auth/login.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the sign-in link
+ *             required: [token]
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       oneOf:
+ *                         - $ref: '#/components/schemas/AuthResponse'
+ *                         - $ref: '#/components/schemas/TwoFactorChallenge'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Invalid, expired or already used sign-in link, or the account is deactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/magic-link/verify', authLimiter, authController.loginWithMagicLink);
+
+/**
+ * @swagger
+ * /auth/2fa/verify:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: Exchange the challenge token returned by login and an authenticator or recovery code for an access token. A challenge can be used once and is void after TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS wrong codes; wrong codes also count toward the account lockout.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code
+ *                 example: '123456'
+ *             required: [challengeToken, code]
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Invalid challenge token or authentication code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/2fa/verify', authLimiter, twoFactorController.verify);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Generate a TOTP secret and an otpauth:// provisioning URI to render as a QR code. Two-factor authentication is not active until confirmed via /auth/2fa/enable.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                           description: Base32 TOTP secret for manual entry
+ *                         otpauthUri:
+ *                           type: string
+ *                           example: otpauth://totp/Express%20Learning%3Ajohn.doe%40example.com?secret=...
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/setup', authenticateToken, forbidImpersonation, twoFactorController.setup);
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: Verify a code from the authenticator app to turn on two-factor authentication. Returns one-time recovery codes, shown only once.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *             required: [code]
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         recoveryCodes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *       400:
+ *         description: Validation error, invalid code or enrollment not started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/enable', authenticateToken, forbidImpersonation, authLimiter, twoFactorController.enable);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Turn off two-factor authentication after confirming the password and a current authenticator or recovery code
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *             required: [password, code]
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Not authenticated, or password or code is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/disable', authenticateToken, forbidImpersonation, authLimiter, twoFactorController.disable);
+
+/**
+ * @swagger
+ * /auth/verify-email:
+ *   post:
+ *     summary: Verify email address
+ *     description: Confirm ownership of an email address using the signed token from the verification email
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the verification link
+ *             required: [token]
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Validation error or invalid/expired token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/verify-email', authController.verifyEmail);
+
+/**
+ * @swagger
+ * /auth/resend-verification:
+ *   post:
+ *     summary: Resend verification email
+ *     description: Send a new verification link. The response is identical whether or not the account exists or is already verified.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@example.com
+ *             required: [email]
+ *     responses:
+ *       200:
+ *         description: Verification link sent if applicable
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/resend-verification', authLimiter, authController.resendVerification);
+
 /**
  * @swagger
  * /auth/profile:
  *   get:
  *     summary: Get current user profile
- *     description: Retrieve the profile information of the authenticated user
+ *     description: Retrieve the profile information of the authenticated user, including the permissions currently in effect
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -100,7 +441,16 @@ router.post('/login', authLimiter, authController.login);
  *                 - $ref: '#/components/schemas/ApiResponse'
  *                 - properties:
  *                     data:
- *                       $ref: '#/components/schemas/User'
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/User'
+ *                         - properties:
+ *                             permissions:
+ *                               type: array
+ *                               items:
+ *                                 type: string
+ *                               example: ['user.read']
+ *                             impersonation:
+ *                               $ref: '#/components/schemas/Impersonation'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
@@ -111,10 +461,15 @@ router.get('/profile', authenticateToken, authController.getProfile);
  * /auth/refresh:
  *   post:
  *     summary: Refresh access token
- *     description: Generate a new access token for the authenticated user
+ *     description: Exchange a refresh token for a new access token. The refresh token is rotated on every use; presenting an already used refresh token revokes every token issued from the same login.
  *     tags: [Authentication]
- *     security:
- *       - bearerAuth: []
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
  *     responses:
  *       200:
  *         description: Token refreshed successfully
@@ -125,22 +480,607 @@ router.get('/profile', authenticateToken, authController.getProfile);
  *                 - $ref: '#/components/schemas/ApiResponse'
  *                 - properties:
  *                     data:
- *                       type: object
- *                       properties:
- *                         token:
- *                           type: string
- *                           description: New JWT access token
- *                         expiresIn:
- *                           type: string
- *                           description: Token expiration time
+ *                       $ref: '#/components/schemas/TokenPair'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  *       401:
- *         $ref: '#/components/responses/UnauthorizedError'
+ *         description: Refresh token is invalid, expired or has already been used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
  */
-router.post('/refresh', authenticateToken, authController.refreshToken);
+router.post('/refresh', authLimiter, authController.refreshToken);
 
-// Future password operations (for when implemented)
-// router.post('/change-password', authenticateToken, passwordOperationsLimiter, authController.changePassword);
-// router.post('/forgot-password', authLimiter, authController.forgotPassword);
-// router.post('/reset-password', passwordOperationsLimiter, authController.resetPassword);
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Log out the current session
+ *     description: Revoke the access token used for this request and end its session, so the session's refresh token can no longer be used
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/logout', authenticateToken, authController.logout);
+
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out everywhere
+ *     description: Revoke every access and refresh token issued to the authenticated user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out from all devices successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/logout-all', authenticateToken, forbidImpersonation, authController.logoutAll);
+
+/**
+ * @swagger
+ * /auth/me/export:
+ *   get:
+ *     summary: Export my data
+ *     description: Download everything stored about the authenticated user as a JSON attachment
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Account data exported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AccountExport'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not available while impersonating
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/me/export', authenticateToken, forbidImpersonation, authController.exportAccount);
+
+/**
+ * @swagger
+ * /auth/me/security-events:
+ *   get:
+ *     summary: My login history
+ *     description: >
+ *       List logins (successful and failed), token refreshes, password changes and role changes on the
+ *       authenticated user's account, with the IP address, user agent and request id of each.
+ *       Events are kept for SECURITY_EVENT_RETENTION_DAYS.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Security events retrieved successfully, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/SecurityEvent'
+ *                     meta:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/me/security-events', authenticateToken, authController.getSecurityEvents);
+
+/**
+ * @swagger
+ * /auth/me:
+ *   delete:
+ *     summary: Delete my account
+ *     description: >
+ *       Schedule the authenticated user's account for erasure after a grace period
+ *       (ACCOUNT_DELETION_GRACE_PERIOD_DAYS) and log it out everywhere. Logging in again and calling
+ *       /auth/me/cancel-deletion before then keeps the account. Once the grace period has passed the
+ *       account, its sessions, tokens, API keys and recovery codes are erased. Accounts without a
+ *       password (invited or magic-link only) get an email with a link to /auth/confirm-deletion instead,
+ *       and the account is only scheduled once that is used.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 description: Current password, to confirm the request. Required if the account has one.
+ *     responses:
+ *       202:
+ *         description: Account scheduled for deletion, or a confirmation link was emailed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         deletionScheduledAt:
+ *                           type: string
+ *                           format: date-time
+ *                         confirmationRequired:
+ *                           type: boolean
+ *                         expiresIn:
+ *                           type: string
+ *       400:
+ *         description: Validation error or the password is missing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not authenticated or password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Deletion is already scheduled, or the user is the last admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete('/me', authenticateToken, forbidImpersonation, passwordOperationsLimiter, authController.deleteAccount);
+
+/**
+ * @swagger
+ * /auth/me/cancel-deletion:
+ *   post:
+ *     summary: Cancel account deletion
+ *     description: Keep an account that was scheduled for deletion
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Account deletion cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: No deletion is scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/me/cancel-deletion', authenticateToken, forbidImpersonation, authController.cancelAccountDeletion);
+
+/**
+ * @swagger
+ * /auth/confirm-deletion:
+ *   post:
+ *     summary: Confirm deleting an account without a password
+ *     description: Use the token emailed by DELETE /auth/me to schedule the deletion of an account that has no password. Tokens expire after ACCOUNT_DELETION_CONFIRMATION_EXPIRES_IN.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *             required: [token]
+ *     responses:
+ *       202:
+ *         description: Account scheduled for deletion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Validation error, or the token is invalid or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Deletion is already scheduled, or the user is the last admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/confirm-deletion', authLimiter, authController.confirmAccountDeletion);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: List the devices the authenticated user is logged in on. The session making the request is flagged as current.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Session'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/sessions', authenticateToken, authController.getSessions);
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Sign out one of the authenticated user's devices. Its refresh token stops working immediately and its access tokens are rejected.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Session ID
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/sessions/:id', authenticateToken, forbidImpersonation, authController.revokeSession);
+
+/**
+ * @swagger
+ * /auth/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: Create a key for an integration. The key acts as the authenticated user, limited to the granted scopes. It is only returned in this response.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateApiKeyRequest'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/ApiKey'
+ *                         - properties:
+ *                             key:
+ *                               type: string
+ *                               example: uak_3q2_7wXyZk...
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   get:
+ *     summary: List API keys
+ *     description: List the authenticated user's API keys that have not been revoked. Keys themselves are never returned, only their prefix.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/api-keys', authenticateToken, forbidImpersonation, apiKeyController.create);
+router.get('/api-keys', authenticateToken, apiKeyController.list);
+
+/**
+ * @swagger
+ * /auth/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/api-keys/:id', authenticateToken, forbidImpersonation, apiKeyController.revoke);
+
+/**
+ * @swagger
+ * /auth/change-password:
+ *   post:
+ *     summary: Change password
+ *     description: Change the authenticated user's password. All previously issued tokens are revoked and a fresh token pair is returned.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChangePasswordRequest'
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error or new password is the same as the current one
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not authenticated or current password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+	'/change-password',
+	authenticateToken,
+	forbidImpersonation,
+	passwordOperationsLimiter,
+	authController.changePassword
+);
+
+/**
+ * @swagger
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset
+ *     description: Email a single-use password reset link. The response is identical whether or not the account exists.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@example.com
+ *             required: [email]
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/forgot-password', authLimiter, authController.forgotPassword);
+
+/**
+ * @swagger
+ * /auth/reset-password:
+ *   post:
+ *     summary: Reset password
+ *     description: Set a new password using a token from a password reset email. Tokens expire and can only be used once; all existing sessions are revoked.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the reset link
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *                 maxLength: 128
+ *                 example: EvenMoreSecure456
+ *             required: [token, newPassword]
+ *     responses:
+ *       200:
+ *         description: Password has been reset successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Validation error or invalid/expired reset token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/reset-password', passwordOperationsLimiter, authController.resetPassword);
+
+/**
+ * @swagger
+ * /auth/invitations/accept:
+ *   post:
+ *     summary: Accept an invitation
+ *     description: >
+ *       Choose the first password for an account created by an admin or moderator, using the token from the
+ *       invitation email. The email address counts as verified, and the response signs the user in as /auth/login does.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the invitation link
+ *               password:
+ *                 type: string
+ *                 description: Must satisfy the password policy (see PasswordPolicyViolation)
+ *                 example: SecurePass123
+ *             required: [token, password]
+ *     responses:
+ *       200:
+ *         description: Invitation accepted and user signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       oneOf:
+ *                         - $ref: '#/components/schemas/AuthResponse'
+ *                         - $ref: '#/components/schemas/TwoFactorChallenge'
+ *       400:
+ *         description: Validation error, password policy violation, or an invalid, expired, replaced or already accepted invitation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/invitations/accept', authLimiter, authController.acceptInvitation);
 
 export { router as authRoutes };
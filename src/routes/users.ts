@@ -1,8 +1,15 @@
 import { Router } from 'express';
 import { userController } from '../controllers/userController';
-import { validate, userSchemas } from '../utils/validation';
+import { validate, paginationSchemas, userSchemas } from '../utils/validation';
 import { userModificationLimiter } from '../middleware/rateLimiting';
-import { authenticateToken, requireAdminOrModerator, requireOwnershipOrAdmin } from '../middleware/auth';
+import {
+	authenticateToken,
+	forbidImpersonation,
+	requireOwnershipOrPermission,
+	requirePermission,
+	requireScope,
+	rejectApiKeys,
+} from '../middleware/auth';
 import { cacheMiddleware } from '../middleware/performance';
 
 const router = Router();
@@ -12,13 +19,229 @@ const router = Router();
  * /users:
  *   get:
  *     summary: Get all users
- *     description: Retrieve a list of all users (requires authentication)
+ *     description: >
+ *       Retrieve users, most recent first unless sorted otherwise (requires the user.read permission).
+ *       Filters can be combined; for example, active moderators created in September 2026 sorted by name:
+ *       ?role=MODERATOR&isActive=true&createdFrom=2026-09-01&createdBefore=2026-10-01&sort=name.
+ *       Results are paged by cursor (limit and cursor) or by page number (page and pageSize), but not both.
+ *       Without either, the first 20 users are returned with a cursor for the next ones.
+ *       The Link header (RFC 8288) has the URLs of the first, previous, next and last pages where they apply.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: The nextCursor of the previous response
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [USER, MODERATOR, ADMIN]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Created at or after this time
+ *       - in: query
+ *         name: createdBefore
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Created before this time
+ *       - in: query
+ *         name: updatedFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Last updated at or after this time
+ *       - in: query
+ *         name: updatedBefore
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Last updated before this time
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Matches part of the name or email
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           default: -createdAt
+ *         description: >
+ *           Comma-separated fields to sort by, out of name, email, createdAt and updatedAt.
+ *           Prefix a field with - for descending order. Cursors only work with the sort they were returned for.
+ *         example: -createdAt,name
+ *     responses:
+ *       200:
+ *         description: Users retrieved successfully
+ *         headers:
+ *           Link:
+ *             description: Links to the neighbouring pages
+ *             schema:
+ *               type: string
+ *               example: '<http://localhost:3000/api/v1/users?limit=20&cursor=eyJjcmVhdGVkQXQiOi>; rel="next"'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/User'
+ *                     meta:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *       400:
+ *         description: Invalid filter, sort or pagination parameters, or a cursor from a different sort order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get(
+	'/',
+	authenticateToken,
+	requireScope('users:read'),
+	requirePermission('user.read'),
+	validate(userSchemas.list, 'query'),
+	cacheMiddleware(120), // Cache for 2 minutes
+	userController.getAllUsers
+);
+
+/**
+ * @swagger
+ * /users/search:
+ *   get:
+ *     summary: Search users
+ *     description: >
+ *       Full-text search over names and emails, most relevant first (requires the user.read permission).
+ *       Every word of q must match the start of a word in the name or email, so "jo sm" finds "John Smith".
+ *       Matches in names rank higher than matches in emails.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         example: jo sm
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
  *     responses:
  *       200:
  *         description: Users retrieved successfully
+ *         headers:
+ *           Link:
+ *             description: Links to the neighbouring pages (RFC 8288)
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/UserSearchResult'
+ *                     meta:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+	'/search',
+	authenticateToken,
+	requireScope('users:read'),
+	requirePermission('user.read'),
+	validate(userSchemas.search, 'query'),
+	cacheMiddleware(120), // Cache for 2 minutes
+	userController.searchUsers
+);
+
+/**
+ * @swagger
+ * /users/deleted:
+ *   get:
+ *     summary: List deleted users
+ *     description: Users deleted through DELETE /users/{id} that can still be restored, most recently deleted first (requires the user.restore permission)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Deleted users retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -29,20 +252,135 @@ const router = Router();
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/User'
+ *                     meta:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+	'/deleted',
+	authenticateToken,
+	requireScope('users:read'),
+	requirePermission('user.restore'),
+	validate(paginationSchemas.query, 'query'),
+	userController.getDeletedUsers
+);
+
+/**
+ * @swagger
+ * /users/invitations:
+ *   get:
+ *     summary: List invitations
+ *     description: >
+ *       Retrieve invitations sent to users created through POST /users (requires the user.invite permission).
+ *       Without a status, every invitation that hasn't been accepted is returned.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, expired, accepted]
+ *     responses:
+ *       200:
+ *         description: Invitations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Invitation'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+	'/invitations',
+	authenticateToken,
+	requireScope('users:read'),
+	requirePermission('user.invite'),
+	validate(userSchemas.invitationQuery, 'query'),
+	userController.getInvitations
+);
+
+/**
+ * @swagger
+ * /users/invitations/{invitationId}/resend:
+ *   post:
+ *     summary: Resend an invitation
+ *     description: Email a new invitation link with a fresh expiry (requires the user.invite permission). Links sent earlier stop working.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Invitation ID
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: Invitation sent successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Invitation'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Invitation has already been accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.get('/', authenticateToken, cacheMiddleware(120), userController.getAllUsers); // Cache for 2 minutes
+router.post(
+	'/invitations/:invitationId/resend',
+	authenticateToken,
+	requireScope('users:write'),
+	requirePermission('user.invite'),
+	validate(userSchemas.invitationParams, 'params'),
+	userController.resendInvitation
+);
 
 /**
  * @swagger
  * /users/{id}:
  *   get:
  *     summary: Get user by ID
- *     description: Retrieve a specific user by their ID (requires authentication)
+ *     description: Retrieve a specific user by their ID (requires the user.read permission)
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -77,6 +415,8 @@ router.get('/', authenticateToken, cacheMiddleware(120), userController.getAllUs
 router.get(
 	'/:id',
 	authenticateToken,
+	requireScope('users:read'),
+	requirePermission('user.read'),
 	validate(userSchemas.params, 'params'),
 	cacheMiddleware(300), // Cache for 5 minutes
 	userController.getUserById
@@ -87,10 +427,11 @@ router.get(
  * /users:
  *   post:
  *     summary: Create a new user
- *     description: Create a new user (requires admin or moderator privileges, rate limited)
+ *     description: Create a new user and email them an invitation to choose a password (requires the user.create permission, rate limited)
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -126,7 +467,8 @@ router.get(
 router.post(
 	'/',
 	authenticateToken,
-	requireAdminOrModerator,
+	requireScope('users:write'),
+	requirePermission('user.create'),
 	userModificationLimiter,
 	validate(userSchemas.create),
 	userController.createUser
@@ -137,10 +479,11 @@ router.post(
  * /users/{id}:
  *   put:
  *     summary: Update user
- *     description: Update user information (requires ownership or admin privileges, rate limited)
+ *     description: Update user information (owners can update themselves; others need the user.update permission; rate limited). Changing the email marks it unverified and sends a verification link to the new address.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -187,7 +530,8 @@ router.post(
 router.put(
 	'/:id',
 	authenticateToken,
-	requireOwnershipOrAdmin((req) => parseInt(req.params.id)),
+	requireScope('users:write'),
+	requireOwnershipOrPermission('user.update', (req) => parseInt(req.params.id)),
 	userModificationLimiter,
 	validate(userSchemas.params, 'params'),
 	validate(userSchemas.update),
@@ -199,10 +543,15 @@ router.put(
  * /users/{id}:
  *   delete:
  *     summary: Delete user
- *     description: Delete a user (requires admin or moderator privileges, rate limited)
+ *     description: >
+ *       Delete a user (requires the user.delete permission, rate limited). The user is signed out and hidden
+ *       from every other endpoint, and their email address can be used by a new account. Admins can restore
+ *       the user through POST /users/{id}/restore until they are purged, DELETED_USER_RETENTION_DAYS later.
+ *       The last active admin can't be deleted.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -235,16 +584,526 @@ router.put(
  *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The user is the last active admin
  *       429:
  *         $ref: '#/components/responses/RateLimitError'
  */
 router.delete(
 	'/:id',
 	authenticateToken,
-	requireAdminOrModerator,
+	requireScope('users:write'),
+	requirePermission('user.delete'),
 	userModificationLimiter,
 	validate(userSchemas.params, 'params'),
 	userController.deleteUser
 );
 
+/**
+ * @swagger
+ * /users/{id}/unlock:
+ *   post:
+ *     summary: Unlock user account
+ *     description: Clear failed login attempts and any lockout on a user account (requires the user.unlock permission)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: User account unlocked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Invalid user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post(
+	'/:id/unlock',
+	authenticateToken,
+	requireScope('users:write'),
+	requirePermission('user.unlock'),
+	validate(userSchemas.params, 'params'),
+	userController.unlockUser
+);
+
+/**
+ * @swagger
+ * /users/{id}/role:
+ *   patch:
+ *     summary: Change user role
+ *     description: Change a user's role (requires the user.role.update permission). You can't change your own role, and the last active admin can't be demoted.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [USER, MODERATOR, ADMIN]
+ *             required: [role]
+ *     responses:
+ *       200:
+ *         description: User role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The change would leave no active admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch(
+	'/:id/role',
+	authenticateToken,
+	requireScope('users:write'),
+	requirePermission('user.role.update'),
+	validate(userSchemas.params, 'params'),
+	validate(userSchemas.updateRole),
+	userController.updateUserRole
+);
+
+/**
+ * @swagger
+ * /users/{id}/deactivate:
+ *   post:
+ *     summary: Deactivate user account
+ *     description: Block a user from logging in and end all of their sessions (requires the user.deactivate permission). You can't deactivate yourself or the last active admin.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: User account deactivated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The change would leave no active admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+	'/:id/deactivate',
+	authenticateToken,
+	requireScope('users:write'),
+	requirePermission('user.deactivate'),
+	validate(userSchemas.params, 'params'),
+	userController.deactivateUser
+);
+
+/**
+ * @swagger
+ * /users/{id}/reactivate:
+ *   post:
+ *     summary: Reactivate user account
+ *     description: Allow a deactivated user to log in again (requires the user.deactivate permission)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: User account reactivated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post(
+	'/:id/reactivate',
+	authenticateToken,
+	requireScope('users:write'),
+	requirePermission('user.deactivate'),
+	validate(userSchemas.params, 'params'),
+	userController.reactivateUser
+);
+
+/**
+ * @swagger
+ * /users/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted user
+ *     description: >
+ *       Undo DELETE /users/{id} before the user is purged (requires the user.restore permission).
+ *       The user gets their email address back and can log in again; sessions ended by the deletion stay ended.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: User restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: No deleted user with this ID
+ *       409:
+ *         description: Another user has taken the email address since the deletion
+ */
+router.post(
+	'/:id/restore',
+	authenticateToken,
+	requireScope('users:write'),
+	requirePermission('user.restore'),
+	validate(userSchemas.params, 'params'),
+	userController.restoreUser
+);
+
+/**
+ * @swagger
+ * /users/{id}/impersonate:
+ *   post:
+ *     summary: Impersonate a user
+ *     description: >
+ *       Get a short-lived access token that acts as the user, for support (requires the user.impersonate permission).
+ *       The token carries an "act" claim naming the admin, cannot be refreshed, and every request made with it is
+ *       written to the impersonation audit log. Responses to those requests include an X-Impersonated-By header, and
+ *       /auth/profile returns an impersonation object so clients can show a banner. Administrators cannot be impersonated.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *     responses:
+ *       201:
+ *         description: Impersonation started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ImpersonationResponse'
+ *       400:
+ *         description: Invalid user ID, or an attempt to impersonate yourself
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post(
+	'/:id/impersonate',
+	authenticateToken,
+	rejectApiKeys,
+	forbidImpersonation,
+	requirePermission('user.impersonate'),
+	validate(userSchemas.params, 'params'),
+	userController.impersonateUser
+);
+
+/**
+ * @swagger
+ * /users/{id}/sessions:
+ *   get:
+ *     summary: List a user's sessions
+ *     description: Retrieve the active sessions (logged-in devices) of a user (requires the user.session.read permission)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Session'
+ *       400:
+ *         description: Invalid user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+	'/:id/sessions',
+	authenticateToken,
+	requireScope('users:read'),
+	requirePermission('user.session.read'),
+	validate(userSchemas.params, 'params'),
+	userController.getUserSessions
+);
+
+/**
+ * @swagger
+ * /users/{id}/security-events:
+ *   get:
+ *     summary: A user's login history
+ *     description: List the security events recorded for a user, as returned by /auth/me/security-events (requires the user.security-event.read permission)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Security events retrieved successfully, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/SecurityEvent'
+ *                     meta:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *       400:
+ *         description: Invalid user ID or pagination parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+	'/:id/security-events',
+	authenticateToken,
+	requireScope('users:read'),
+	requirePermission('user.security-event.read'),
+	validate(userSchemas.params, 'params'),
+	validate(paginationSchemas.query, 'query'),
+	userController.getUserSecurityEvents
+);
+
+/**
+ * @swagger
+ * /users/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a user's session
+ *     description: Sign a user out of one device by revoking the session and its refresh tokens (requires the user.session.revoke permission)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: User ID
+ *         example: 1
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Session ID
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Invalid user or session ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete(
+	'/:id/sessions/:sessionId',
+	authenticateToken,
+	requireScope('users:write'),
+	requirePermission('user.session.revoke'),
+	validate(userSchemas.sessionParams, 'params'),
+	userController.revokeUserSession
+);
+
 export { router as userRoutes };
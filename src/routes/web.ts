@@ -1,9 +1,64 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { userService } from '../services/userService';
 import { AppError } from '../middleware/errorHandler';
+import { authService } from '../services/authService';
+import { invitationService } from '../services/invitationService';
+import { accountService } from '../services/accountService';
+import { twoFactorService } from '../services/twoFactorService';
+import { sessionService } from '../services/sessionService';
+import { csrfProtection } from '../middleware/csrf';
+import { invalidateCache } from '../middleware/performance';
+import {
+	clearWebSessionCookie,
+	loadWebSession,
+	requirePermission,
+	requireWebSession,
+	setWebSessionCookie,
+} from '../middleware/auth';
+import { authLimiter } from '../middleware/rateLimiting';
+import { authSchemas, twoFactorSchemas, validate } from '../utils/validation';
+import { getClientContext } from '../utils/clientContext';
+import { serializeUser, serializeUsers } from '../serializers/userSerializer';
+import { ApiResponse } from '../types';
+import { AuthResponse, PendingVerificationResponse, TwoFactorChallengeResponse } from '../types/auth';
 
 const router = Router();
 
+// Every web request gets a CSRF token and, if it carries a session cookie, the signed-in user
+router.use(csrfProtection);
+router.use(loadWebSession);
+
+// The web UI's sign-in endpoints mirror the API's, but a completed login starts a
+// cookie session instead of handing tokens to the page, where scripts could read them
+const signIn =
+	(
+		authenticate: (req: Request) => Promise<AuthResponse | TwoFactorChallengeResponse | PendingVerificationResponse>,
+		message: string,
+		statusCode: number = 200
+	) =>
+	async (req: Request, res: Response, next: NextFunction) => {
+		try {
+			const result = await authenticate(req);
+
+			let data: object = result;
+			if ('token' in result) {
+				setWebSessionCookie(res, await authService.startWebSession(result));
+				data = { user: result.user };
+			}
+
+			const response: ApiResponse = {
+				success: true,
+				message,
+				data,
+				timestamp: new Date().toISOString(),
+			};
+
+			res.status(statusCode).json(response);
+		} catch (error) {
+			next(error);
+		}
+	};
+
 // Helper functions are commented out as they're not currently used
 // const renderWithLayout = (res: Response, template: string, data: any) => {
 // 	const content =
@@ -26,34 +81,192 @@ router.get('/', (_req: Request, res: Response) => {
 });
 
 // Authentication page
-router.get('/auth', (_req: Request, res: Response) => {
+router.get('/auth', (req: Request, res: Response) => {
+	if (req.webSessionId) {
+		return res.redirect('/web/dashboard');
+	}
+
 	res.render('auth', {
 		title: 'Express.js API',
 	});
 });
 
+// Password reset page (linked from reset emails)
+router.get('/reset-password', (req: Request, res: Response) => {
+	res.render('reset-password', {
+		title: 'Express.js API',
+		token: typeof req.query.token === 'string' ? req.query.token : '',
+	});
+});
+
+// Sign-in link target. The token is only exchanged when the user clicks the
+// button, so mail scanners that prefetch links don't use it up.
+router.get('/magic-link', (req: Request, res: Response) => {
+	res.render('magic-link', {
+		title: 'Express.js API',
+		token: typeof req.query.token === 'string' ? req.query.token : '',
+	});
+});
+
+// Target of the link that confirms deleting an account without a password. Like the
+// sign-in link, nothing happens until the user submits the form.
+router.get('/confirm-deletion', (req: Request, res: Response) => {
+	res.render('confirm-deletion', {
+		title: 'Express.js API',
+		token: typeof req.query.token === 'string' ? req.query.token : '',
+		deletionScheduledAt: null,
+	});
+});
+
+router.post('/confirm-deletion', authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+	try {
+		const token = typeof req.body.token === 'string' ? req.body.token : '';
+		const { deletionScheduledAt } = await accountService.confirmDeletion(token);
+
+		res.render('confirm-deletion', { title: 'Express.js API', token: '', deletionScheduledAt });
+	} catch (error) {
+		next(error);
+	}
+});
+
+// Invitation link target, where invited users choose their first password
+router.get('/accept-invitation', (req: Request, res: Response) => {
+	res.render('accept-invitation', {
+		title: 'Express.js API',
+		token: typeof req.query.token === 'string' ? req.query.token : '',
+	});
+});
+
+router.post(
+	'/login',
+	authLimiter,
+	validate(authSchemas.login),
+	signIn((req) => authService.login(req.body, getClientContext(req)), 'Login successful')
+);
+
+// Second step for accounts with two-factor authentication
+router.post(
+	'/login/2fa',
+	authLimiter,
+	validate(twoFactorSchemas.verify),
+	signIn(
+		(req) => twoFactorService.completeLogin(req.body.challengeToken, req.body.code, getClientContext(req)),
+		'Login successful'
+	)
+);
+
+router.post(
+	'/register',
+	authLimiter,
+	validate(authSchemas.register),
+	signIn((req) => authService.register(req.body, getClientContext(req)), 'User registered successfully', 201)
+);
+
+router.post(
+	'/magic-link',
+	authLimiter,
+	validate(authSchemas.magicLinkLogin),
+	signIn((req) => authService.loginWithMagicLink(req.body.token, getClientContext(req)), 'Login successful')
+);
+
+router.post(
+	'/accept-invitation',
+	authLimiter,
+	validate(authSchemas.acceptInvitation),
+	signIn(
+		(req) => invitationService.accept(req.body.token, req.body.password, getClientContext(req)),
+		'Invitation accepted successfully'
+	)
+);
+
+// Logout form on the dashboard
+router.post('/logout', requireWebSession, async (req: Request, res: Response, next: NextFunction) => {
+	try {
+		await sessionService.revoke(req.webSessionId!);
+		clearWebSessionCookie(res);
+		res.redirect('/web/auth');
+	} catch (error) {
+		next(error);
+	}
+});
+
+// Email verification link target
+router.get('/verify-email', async (req: Request, res: Response) => {
+	try {
+		const token = typeof req.query.token === 'string' ? req.query.token : '';
+		const user = await authService.verifyEmail(token);
+		res.render('verify-email', {
+			title: 'Express.js API',
+			verified: true,
+			email: user.email,
+		});
+	} catch (error) {
+		res.status(400).render('verify-email', {
+			title: 'Express.js API',
+			verified: false,
+			email: null,
+		});
+	}
+});
+
 // Dashboard page
-router.get('/dashboard', (_req: Request, res: Response) => {
+router.get('/dashboard', requireWebSession, (_req: Request, res: Response) => {
 	res.render('dashboard', {
 		title: 'Express.js API',
 	});
 });
 
-// Users list page
-router.get('/users', async (_req: Request, res: Response, next: NextFunction) => {
+// Users list page, or search results when there is a query. Like the API, only for
+// signed-in users who may read users, since the list shows everyone's email address.
+router.get('/users', requireWebSession, requirePermission('user.read'), async (req: Request, res: Response, next: NextFunction) => {
 	try {
+		const q = typeof req.query.q === 'string' ? req.query.q.trim().substring(0, 100) : '';
+
+		if (q) {
+			const { items, meta } = await userService.searchUsers(q, 1, 50);
+			return res.render('users', {
+				title: 'Search Users',
+				q,
+				users: serializeUsers(items.map((result) => result.user), req.user),
+				snippets: items.map((result) => result.snippets),
+				total: meta.total,
+			});
+		}
+
 		const users = await userService.getAllUsers();
 		res.render('users', {
 			title: 'All Users',
-			users,
+			q,
+			users: serializeUsers(users, req.user),
+			snippets: null,
+			total: users.length,
 		});
 	} catch (error) {
 		next(error);
 	}
 });
 
+// Seed database with sample users
+router.post('/users/seed', requireWebSession, requirePermission('user.create'), async (_req: Request, res: Response, next: NextFunction) => {
+	try {
+		// Add some sample users if database is empty
+		const existingUsers = await userService.getAllUsers();
+
+		if (existingUsers.length === 0) {
+			await userService.createUser({ name: 'Alice Johnson', email: 'alice@example.com' });
+			await userService.createUser({ name: 'Bob Wilson', email: 'bob@example.com' });
+			await userService.createUser({ name: 'Charlie Brown', email: 'charlie@example.com' });
+			invalidateCache('users*');
+		}
+
+		res.redirect('/web/users');
+	} catch (error) {
+		next(error);
+	}
+});
+
 // User detail page
-router.get('/users/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/users/:id', requireWebSession, requirePermission('user.read'), async (req: Request, res: Response, next: NextFunction) => {
 	try {
 		const id = parseInt(req.params.id);
 
@@ -69,7 +282,7 @@ router.get('/users/:id', async (req: Request, res: Response, next: NextFunction)
 
 		res.render('user-detail', {
 			title: `User: ${user.name}`,
-			user,
+			user: serializeUser(user, req.user),
 		});
 	} catch (error) {
 		next(error);
@@ -77,7 +290,7 @@ router.get('/users/:id', async (req: Request, res: Response, next: NextFunction)
 });
 
 // Create user (form submission)
-router.post('/users/create', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/users/create', requireWebSession, requirePermission('user.create'), async (req: Request, res: Response, next: NextFunction) => {
 	try {
 		const { name, email } = req.body;
 
@@ -87,7 +300,9 @@ router.post('/users/create', async (req: Request, res: Response, next: NextFunct
 			return next(new AppError('User with this email already exists', 409));
 		}
 
-		await userService.createUser({ name, email });
+		const user = await userService.createUser({ name, email });
+		await invitationService.invite(user, req.user!.id);
+		invalidateCache('users*');
 		res.redirect('/web/users');
 	} catch (error) {
 		next(error);
@@ -95,7 +310,7 @@ router.post('/users/create', async (req: Request, res: Response, next: NextFunct
 });
 
 // Update user (form submission)
-router.post('/users/:id/update', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/users/:id/update', requireWebSession, requirePermission('user.update'), async (req: Request, res: Response, next: NextFunction) => {
 	try {
 		const id = parseInt(req.params.id);
 		const { name, email } = req.body;
@@ -118,6 +333,8 @@ router.post('/users/:id/update', async (req: Request, res: Response, next: NextF
 			return next(new AppError('User not found', 404));
 		}
 
+		// Same as the API: cached user responses would otherwise show the old data
+		invalidateCache('users*');
 		res.redirect(`/web/users/${id}`);
 	} catch (error) {
 		next(error);
@@ -125,7 +342,7 @@ router.post('/users/:id/update', async (req: Request, res: Response, next: NextF
 });
 
 // Delete user (form submission)
-router.post('/users/:id/delete', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/users/:id/delete', requireWebSession, requirePermission('user.delete'), async (req: Request, res: Response, next: NextFunction) => {
 	try {
 		const id = parseInt(req.params.id);
 
@@ -139,24 +356,7 @@ router.post('/users/:id/delete', async (req: Request, res: Response, next: NextF
 			return next(new AppError('User not found', 404));
 		}
 
-		res.redirect('/web/users');
-	} catch (error) {
-		next(error);
-	}
-});
-
-// Seed database with sample users
-router.get('/users/seed', async (_req: Request, res: Response, next: NextFunction) => {
-	try {
-		// Add some sample users if database is empty
-		const existingUsers = await userService.getAllUsers();
-
-		if (existingUsers.length === 0) {
-			await userService.createUser({ name: 'Alice Johnson', email: 'alice@example.com' });
-			await userService.createUser({ name: 'Bob Wilson', email: 'bob@example.com' });
-			await userService.createUser({ name: 'Charlie Brown', email: 'charlie@example.com' });
-		}
-
+		invalidateCache('users*');
 		res.redirect('/web/users');
 	} catch (error) {
 		next(error);
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { signingKeys } from '../lib/signingKeys';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: JSON Web Key Set
+ *     description: Public keys for verifying access tokens, selected by the token's "kid" header. Served from the site root, outside the API prefix. Empty while tokens are signed with HS256.
+ *     tags: [Authentication]
+ *     security: []
+ *     servers:
+ *       - url: /
+ *     responses:
+ *       200:
+ *         description: The JWK Set (RFC 7517). Not wrapped in the usual API response envelope.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JwkSet'
+ */
+router.get('/jwks.json', (_req, res) => {
+	// Let verifiers cache the keys, but pick up rotations within a few minutes
+	res.set('Cache-Control', 'public, max-age=300');
+	res.json(signingKeys.getKeyStore().toJwks());
+});
+
+export { router as wellKnownRoutes };
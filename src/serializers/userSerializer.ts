@@ -0,0 +1,49 @@
+import { User } from '@prisma/client';
+import { UserSearchResult, UserView } from '../types';
+import { RequestUser } from '../types/auth';
+
+// The columns a view may be built from. Prisma rows and AuthenticatedUser both have them.
+type SerializableUser = Pick<
+	User,
+	'id' | 'name' | 'email' | 'role' | 'isActive' | 'emailVerified' | 'twoFactorEnabled' | 'createdAt' | 'updatedAt'
+> &
+	Partial<Pick<User, 'deletedAt' | 'deletedEmail'>>;
+
+// The signed-in user the response is for, if any, with the permissions in effect for the request
+type Viewer = Pick<RequestUser, 'permissions'> | undefined;
+
+// Every user sent to a client goes through here. Fields are copied one by one so that new
+// columns, the password hash among them, stay private unless they are added below.
+export const serializeUser = (user: SerializableUser, viewer: Viewer): UserView => {
+	const view: UserView = {
+		id: user.id,
+		name: user.name,
+		email: user.deletedEmail ?? user.email, // Deleted users keep their address here
+		createdAt: user.createdAt,
+		updatedAt: user.updatedAt,
+	};
+
+	if (!viewer?.permissions.includes('user.read.admin')) {
+		return view;
+	}
+
+	return {
+		...view,
+		role: user.role,
+		isActive: user.isActive,
+		emailVerified: user.emailVerified,
+		twoFactorEnabled: user.twoFactorEnabled,
+		...(user.deletedAt && { deletedAt: user.deletedAt }),
+	};
+};
+
+export const serializeUsers = (users: SerializableUser[], viewer: Viewer): UserView[] =>
+	users.map((user) => serializeUser(user, viewer));
+
+export const serializeSearchResult = (
+	result: UserSearchResult,
+	viewer: Viewer
+): Omit<UserSearchResult, 'user'> & { user: UserView } => ({
+	...result,
+	user: serializeUser(result.user, viewer),
+});
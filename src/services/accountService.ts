@@ -0,0 +1,189 @@
+import { User } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CONFIG } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { assertAnotherActiveAdmin, authService } from './authService';
+import { emailService } from './emailService';
+import { toSecurityEventInfo } from './securityEventService';
+import {
+	AccountDeletionConfirmationPayload,
+	AccountDeletionConfirmationResponse,
+	AccountDeletionInfo,
+	AccountExport,
+	ApiKeyScope,
+} from '../types/auth';
+
+// Self-service data export and account deletion
+export const accountService = {
+	// Returns null if the user doesn't exist
+	async exportData(userId: number): Promise<AccountExport | null> {
+		const user = await prisma.user.findUnique({
+			where: { id: userId },
+			include: {
+				sessions: { orderBy: { createdAt: 'asc' } },
+				apiKeys: { orderBy: { createdAt: 'asc' } },
+				recoveryCodes: { where: { usedAt: null } },
+				invitation: true,
+				securityEvents: { orderBy: { createdAt: 'asc' } },
+			},
+		});
+
+		if (!user) {
+			return null;
+		}
+
+		const auditLog = await prisma.impersonationAuditLog.findMany({
+			where: { OR: [{ actorId: userId }, { targetUserId: userId }] },
+			orderBy: { createdAt: 'asc' },
+		});
+
+		return {
+			exportedAt: new Date(),
+			profile: {
+				id: user.id,
+				name: user.name,
+				email: user.email,
+				role: user.role,
+				isActive: user.isActive,
+				emailVerified: user.emailVerified,
+				emailVerifiedAt: user.emailVerifiedAt,
+				twoFactorEnabled: user.twoFactorEnabled,
+				deletionScheduledAt: user.deletionScheduledAt,
+				createdAt: user.createdAt,
+				updatedAt: user.updatedAt,
+			},
+			sessions: user.sessions.map((session) => ({
+				id: session.id,
+				userAgent: session.userAgent,
+				ipAddress: session.ipAddress,
+				createdAt: session.createdAt,
+				lastSeenAt: session.lastSeenAt,
+				revokedAt: session.revokedAt,
+			})),
+			apiKeys: user.apiKeys.map((apiKey) => ({
+				id: apiKey.id,
+				name: apiKey.name,
+				prefix: apiKey.prefix,
+				scopes: apiKey.scopes.split(' ').filter(Boolean) as ApiKeyScope[],
+				expiresAt: apiKey.expiresAt,
+				lastUsedAt: apiKey.lastUsedAt,
+				createdAt: apiKey.createdAt,
+				revokedAt: apiKey.revokedAt,
+			})),
+			twoFactor: {
+				enabled: user.twoFactorEnabled,
+				recoveryCodesRemaining: user.recoveryCodes.length,
+			},
+			invitation: user.invitation && {
+				sentAt: user.invitation.sentAt,
+				expiresAt: user.invitation.expiresAt,
+				acceptedAt: user.invitation.acceptedAt,
+			},
+			impersonationAuditLog: auditLog.map(({ id: _id, ...entry }) => entry),
+			securityEvents: user.securityEvents.map(toSecurityEventInfo),
+		};
+	},
+
+	// Confirmed with the password, or for accounts without one (invited or magic-link only)
+	// with a link emailed to the user, which then goes through confirmDeletion
+	async requestDeletion(
+		userId: number,
+		password?: string
+	): Promise<AccountDeletionInfo | AccountDeletionConfirmationResponse> {
+		const user = await prisma.user.findUnique({ where: { id: userId } });
+
+		if (!user || !user.isActive) {
+			throw new AppError('User not found or inactive', 401);
+		}
+
+		if (user.deletionScheduledAt) {
+			throw new AppError('Account deletion is already scheduled', 409);
+		}
+
+		if (!user.password) {
+			const payload: AccountDeletionConfirmationPayload = { userId };
+			const token = authService.signPurposeToken('account-deletion', payload, CONFIG.ACCOUNT_DELETION_CONFIRMATION_EXPIRES_IN);
+			await emailService.sendAccountDeletionConfirmation(user, token);
+
+			return { confirmationRequired: true, expiresIn: CONFIG.ACCOUNT_DELETION_CONFIRMATION_EXPIRES_IN };
+		}
+
+		if (password === undefined) {
+			throw new AppError('Password is required', 400);
+		}
+
+		if (!(await authService.comparePassword(password, user.password))) {
+			throw new AppError('Password is incorrect', 401);
+		}
+
+		return this.scheduleDeletion(user);
+	},
+
+	async confirmDeletion(token: string): Promise<AccountDeletionInfo> {
+		const payload = authService.verifyPurposeToken<AccountDeletionConfirmationPayload>('account-deletion', token);
+		const user = await prisma.user.findUnique({ where: { id: payload.userId } });
+
+		// Accounts that have set a password since must confirm with it instead
+		if (!user || !user.isActive || user.deletedAt || user.password) {
+			throw new AppError('Invalid or expired token', 400);
+		}
+
+		if (user.deletionScheduledAt) {
+			throw new AppError('Account deletion is already scheduled', 409);
+		}
+
+		return this.scheduleDeletion(user);
+	},
+
+	// Schedule the account for erasure after the grace period and sign it out everywhere.
+	// Logging in again and cancelling before then keeps the account.
+	async scheduleDeletion(user: User): Promise<AccountDeletionInfo> {
+		const deletionScheduledAt = new Date(Date.now() + CONFIG.ACCOUNT_DELETION_GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+		await prisma.$transaction(async (tx) => {
+			if (user.role === 'ADMIN') {
+				await assertAnotherActiveAdmin(tx, user.id);
+			}
+
+			await tx.user.update({
+				where: { id: user.id },
+				data: { deletionScheduledAt },
+			});
+		});
+
+		await authService.revokeAllUserTokens(user.id);
+		await emailService.sendAccountDeletionScheduled(user, deletionScheduledAt);
+
+		return { deletionScheduledAt };
+	},
+
+	async cancelDeletion(userId: number): Promise<void> {
+		const { count } = await prisma.user.updateMany({
+			where: { id: userId, deletionScheduledAt: { not: null } },
+			data: { deletionScheduledAt: null },
+		});
+
+		if (count === 0) {
+			throw new AppError('No account deletion is scheduled', 409);
+		}
+	},
+
+	// Erase accounts whose grace period has passed. Sessions, tokens, API keys, recovery codes,
+	// invitations and security events go with the user row. The impersonation audit log is
+	// kept as the record of what support staff did.
+	async eraseDueAccounts(): Promise<number> {
+		const due = await prisma.user.findMany({
+			where: { deletionScheduledAt: { lte: new Date() } },
+			select: { id: true },
+		});
+
+		for (const { id } of due) {
+			await prisma.$transaction([
+				prisma.revokedToken.deleteMany({ where: { userId: id } }),
+				prisma.user.delete({ where: { id } }),
+			]);
+		}
+
+		return due.length;
+	},
+};
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { ApiKey } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CONFIG } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { authService } from './authService';
+import { ApiKeyContext, ApiKeyInfo, ApiKeyScope, CreateApiKeyRequest, CreatedApiKey } from '../types/auth';
+
+// Makes keys recognizable in logs and secret scanners
+const KEY_PREFIX = 'uak_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+// Avoid a database write on every request just to bump lastUsedAt
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const parseScopes = (scopes: string): ApiKeyScope[] => scopes.split(' ').filter(Boolean) as ApiKeyScope[];
+
+const toApiKeyInfo = (apiKey: ApiKey): ApiKeyInfo => ({
+	id: apiKey.id,
+	name: apiKey.name,
+	prefix: apiKey.prefix,
+	scopes: parseScopes(apiKey.scopes),
+	expiresAt: apiKey.expiresAt,
+	lastUsedAt: apiKey.lastUsedAt,
+	createdAt: apiKey.createdAt,
+});
+
+export const apiKeyService = {
+	async create(userId: number, data: CreateApiKeyRequest): Promise<CreatedApiKey> {
+		const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+		const expiresInDays = data.expiresInDays ?? CONFIG.API_KEY_DEFAULT_EXPIRES_IN_DAYS;
+
+		const apiKey = await prisma.apiKey.create({
+			data: {
+				name: data.name,
+				prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+				keyHash: authService.hashToken(key),
+				scopes: [...new Set(data.scopes)].join(' '),
+				userId,
+				expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+			},
+		});
+
+		return { ...toApiKeyInfo(apiKey), key };
+	},
+
+	async listForUser(userId: number): Promise<ApiKeyInfo[]> {
+		const apiKeys = await prisma.apiKey.findMany({
+			where: { userId, revokedAt: null },
+			orderBy: { createdAt: 'desc' },
+		});
+
+		return apiKeys.map(toApiKeyInfo);
+	},
+
+	// Returns false if the key doesn't exist or belongs to someone else
+	async revoke(id: number, userId: number): Promise<boolean> {
+		const { count } = await prisma.apiKey.updateMany({
+			where: { id, userId, revokedAt: null },
+			data: { revokedAt: new Date() },
+		});
+
+		return count === 1;
+	},
+
+	// Resolve a presented key to its owner and scopes, recording when it was last used
+	async authenticate(key: string): Promise<{ userId: number; apiKey: ApiKeyContext }> {
+		const apiKey = await prisma.apiKey.findUnique({
+			where: { keyHash: authService.hashToken(key) },
+		});
+
+		if (!apiKey || apiKey.revokedAt) {
+			throw new AppError('Invalid API key', 401);
+		}
+
+		if (apiKey.expiresAt < new Date()) {
+			throw new AppError('API key has expired', 401);
+		}
+
+		const now = Date.now();
+		if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+			await prisma.apiKey.update({
+				where: { id: apiKey.id },
+				data: { lastUsedAt: new Date(now) },
+			});
+		}
+
+		return {
+			userId: apiKey.userId,
+			apiKey: { id: apiKey.id, scopes: parseScopes(apiKey.scopes) },
+		};
+	},
+};
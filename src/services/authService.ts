@@ -1,37 +1,356 @@
-import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { PrismaClient, UserRole } from '@prisma/client';
+import { Prisma, PrismaClient, Session, User, UserRole } from '@prisma/client';
 import { CONFIG } from '../config';
-import { AppError } from '../middleware/errorHandler';
-import { JwtPayload, AuthenticatedUser, LoginRequest, RegisterRequest, AuthResponse } from '../types/auth';
+import { AppError, ValidationError } from '../middleware/errorHandler';
+import { emailService } from './emailService';
+import { sessionService } from './sessionService';
+import { securityEventService } from './securityEventService';
+import { signingKeys } from '../lib/signingKeys';
+import { checkPassword, PasswordContext } from '../lib/passwordPolicy';
+import { passwordHashing } from '../lib/passwordHashing';
+import {
+	JwtPayload,
+	AuthenticatedUser,
+	LoginRequest,
+	RegisterRequest,
+	AuthResponse,
+	TokenPair,
+	PendingVerificationResponse,
+	EmailVerificationPayload,
+	TwoFactorChallengeResponse,
+	TwoFactorChallengePayload,
+	ClientContext,
+} from '../types/auth';
 
 const prisma = new PrismaClient();
 
+// Hash of a random value, compared against when there's no real hash to check
+let dummyHash: Promise<string> | undefined;
+const getDummyHash = (): Promise<string> => {
+	dummyHash ??= passwordHashing.hash(crypto.randomBytes(16).toString('hex'));
+	return dummyHash;
+};
+
+// Pick the fields that are safe to expose; never spread the raw row so that
+// password hashes and token bookkeeping columns cannot leak into responses
+const toAuthenticatedUser = (user: User): AuthenticatedUser => ({
+	id: user.id,
+	name: user.name,
+	email: user.email,
+	role: user.role,
+	isActive: user.isActive,
+	emailVerified: user.emailVerified,
+	twoFactorEnabled: user.twoFactorEnabled,
+	createdAt: user.createdAt,
+	updatedAt: user.updatedAt,
+});
+
+// Refuse a change that would leave the system without an active admin. Run it in the
+// same transaction as the change, so two concurrent changes can't both pass.
+export const assertAnotherActiveAdmin = async (tx: Prisma.TransactionClient, userId: number): Promise<void> => {
+	const otherAdmins = await tx.user.count({
+		where: { role: 'ADMIN', isActive: true, deletedAt: null, id: { not: userId } },
+	});
+
+	if (otherAdmins === 0) {
+		throw new AppError('Cannot remove the last admin', 409);
+	}
+};
+
 export const authService = {
 	async hashPassword(password: string): Promise<string> {
-		const saltRounds = 12;
-		return bcrypt.hash(password, saltRounds);
+		return passwordHashing.hash(password);
 	},
 
+	// Works for any supported hash format, not just the current policy's
 	async comparePassword(password: string, hashedPassword: string): Promise<boolean> {
-		return bcrypt.compare(password, hashedPassword);
+		return passwordHashing.verify(password, hashedPassword);
 	},
 
-	generateToken(payload: Omit<JwtPayload, 'iat' | 'exp'>): string {
-		return jwt.sign(payload as any, CONFIG.JWT_SECRET, {
-			expiresIn: CONFIG.JWT_EXPIRES_IN,
-		} as jwt.SignOptions);
+	generateToken(payload: Omit<JwtPayload, 'iat' | 'exp' | 'jti'>, expiresIn: string = CONFIG.JWT_EXPIRES_IN): string {
+		const options: jwt.SignOptions = {
+			expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+			jwtid: crypto.randomUUID(),
+		};
+
+		const signingKey = signingKeys.getKeyStore().signingKey;
+		if (signingKey) {
+			return jwt.sign(payload, signingKey.privateKey!, { ...options, algorithm: signingKey.alg, keyid: signingKey.kid });
+		}
+
+		return jwt.sign(payload, CONFIG.JWT_SECRET, { ...options, algorithm: 'HS256' });
 	},
 
 	verifyToken(token: string): JwtPayload {
 		try {
-			return jwt.verify(token, CONFIG.JWT_SECRET) as JwtPayload;
+			// Tokens signed with a key pair name their key in the "kid" header, which allows rotation
+			const kid = jwt.decode(token, { complete: true })?.header.kid;
+			if (kid) {
+				const key = signingKeys.getKeyStore().getVerificationKey(kid);
+				if (!key) {
+					throw new Error(`Unknown signing key: ${kid}`);
+				}
+				return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as JwtPayload;
+			}
+
+			if (CONFIG.JWT_ALGORITHM !== 'HS256') {
+				throw new Error('Token is not signed with a published key');
+			}
+
+			return jwt.verify(token, CONFIG.JWT_SECRET, { algorithms: ['HS256'] }) as JwtPayload;
 		} catch (error) {
 			throw new AppError('Invalid or expired token', 401);
 		}
 	},
 
-	async register(userData: RegisterRequest): Promise<AuthResponse> {
+	// Single-purpose tokens (email verification, ...) are signed with a derived secret
+	// so they can never be accepted as access tokens and vice versa
+	signPurposeToken(purpose: string, payload: object, expiresIn: string): string {
+		return jwt.sign(payload, `${CONFIG.JWT_SECRET}:${purpose}`, {
+			expiresIn,
+			audience: purpose,
+		} as jwt.SignOptions);
+	},
+
+	verifyPurposeToken<T>(purpose: string, token: string, statusCode: number = 400): T {
+		try {
+			return jwt.verify(token, `${CONFIG.JWT_SECRET}:${purpose}`, { audience: purpose }) as T;
+		} catch (error) {
+			throw new AppError('Invalid or expired token', statusCode);
+		}
+	},
+
+	assertPasswordPolicy(password: string, context: PasswordContext): void {
+		const violations = checkPassword(password, context);
+		if (violations.length > 0) {
+			throw new ValidationError('Password does not meet the password policy', violations);
+		}
+	},
+
+	// Opaque tokens (refresh, password reset) are high-entropy, so a fast hash is enough
+	hashToken(token: string): string {
+		return crypto.createHash('sha256').update(token).digest('hex');
+	},
+
+	// Persist a new opaque refresh token. Only the hash is stored, the raw value is returned once.
+	async createRefreshToken(userId: number, sessionId: string) {
+		const refreshToken = crypto.randomBytes(48).toString('base64url');
+		const expiresAt = new Date(Date.now() + CONFIG.REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000);
+
+		const record = await prisma.refreshToken.create({
+			data: {
+				tokenHash: this.hashToken(refreshToken),
+				sessionId,
+				userId,
+				expiresAt,
+			},
+		});
+
+		return { refreshToken, record };
+	},
+
+	// Start a new session and issue its access and refresh tokens
+	async issueTokens(user: { id: number; email: string; role: UserRole }, context?: ClientContext): Promise<TokenPair> {
+		const session = await sessionService.create(user.id, context);
+
+		const token = this.generateToken({
+			userId: user.id,
+			email: user.email,
+			role: user.role,
+			sid: session.id,
+		});
+
+		const { refreshToken } = await this.createRefreshToken(user.id, session.id);
+
+		return {
+			token,
+			refreshToken,
+			expiresIn: CONFIG.JWT_EXPIRES_IN,
+		};
+	},
+
+	// Hand a freshly issued session to the web UI, which keeps an opaque token in an
+	// httpOnly cookie instead of the token pair. The browser never sees the refresh
+	// token, so it is revoked. Returns the raw cookie value.
+	async startWebSession(tokens: TokenPair): Promise<string> {
+		const { sid } = this.verifyToken(tokens.token);
+		const webToken = crypto.randomBytes(48).toString('base64url');
+
+		await prisma.$transaction([
+			prisma.session.update({
+				where: { id: sid },
+				data: { webTokenHash: this.hashToken(webToken) },
+			}),
+			prisma.refreshToken.updateMany({
+				where: { sessionId: sid, revokedAt: null },
+				data: { revokedAt: new Date() },
+			}),
+		]);
+
+		return webToken;
+	},
+
+	// Resolve a web session cookie. Revoked sessions and sessions idle for longer than a
+	// refresh token lives are rejected, the same as token-based sessions.
+	async getWebSession(webToken: string): Promise<Session | null> {
+		const idleCutoff = new Date(Date.now() - CONFIG.REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000);
+
+		return prisma.session.findFirst({
+			where: {
+				webTokenHash: this.hashToken(webToken),
+				revokedAt: null,
+				lastSeenAt: { gt: idleCutoff },
+			},
+		});
+	},
+
+	async rotateRefreshToken(refreshToken: string, context?: ClientContext): Promise<TokenPair> {
+		const existing = await prisma.refreshToken.findUnique({
+			where: { tokenHash: this.hashToken(refreshToken) },
+			include: { user: true, session: true },
+		});
+
+		if (!existing) {
+			throw new AppError('Invalid refresh token', 401);
+		}
+
+		if (existing.session.revokedAt) {
+			throw new AppError('Session has been revoked', 401);
+		}
+
+		// A token that was already rotated is being presented again:
+		// treat it as stolen and end the session it belongs to.
+		if (existing.revokedAt) {
+			await sessionService.revoke(existing.sessionId);
+			throw new AppError('Refresh token reuse detected', 401);
+		}
+
+		if (existing.expiresAt < new Date()) {
+			throw new AppError('Refresh token has expired', 401);
+		}
+
+		if (!existing.user.isActive) {
+			await sessionService.revoke(existing.sessionId);
+			throw new AppError('Account is deactivated', 401);
+		}
+
+		const token = this.generateToken({
+			userId: existing.user.id,
+			email: existing.user.email,
+			role: existing.user.role,
+			sid: existing.sessionId,
+		});
+		const { refreshToken: nextRefreshToken, record } = await this.createRefreshToken(existing.userId, existing.sessionId);
+
+		// Mark the old token as used. The revokedAt guard makes this safe against
+		// two concurrent refreshes with the same token.
+		const { count } = await prisma.refreshToken.updateMany({
+			where: { id: existing.id, revokedAt: null },
+			data: { revokedAt: new Date(), replacedById: record.id },
+		});
+
+		if (count === 0) {
+			await sessionService.revoke(existing.sessionId);
+			throw new AppError('Refresh token reuse detected', 401);
+		}
+
+		await sessionService.touch(existing.sessionId, context);
+		await securityEventService.record(existing.userId, 'token.refreshed', context, { sessionId: existing.sessionId });
+
+		return {
+			token,
+			refreshToken: nextRefreshToken,
+			expiresIn: CONFIG.JWT_EXPIRES_IN,
+		};
+	},
+
+	// Add a single access token to the denylist until it would have expired anyway
+	async revokeToken(payload: JwtPayload): Promise<void> {
+		if (!payload.jti || !payload.exp) {
+			return;
+		}
+
+		await prisma.revokedToken.upsert({
+			where: { jti: payload.jti },
+			update: {},
+			create: {
+				jti: payload.jti,
+				userId: payload.userId,
+				expiresAt: new Date(payload.exp * 1000),
+			},
+		});
+	},
+
+	// Invalidate every session, access and refresh token issued to the user so far
+	async revokeAllUserTokens(userId: number): Promise<void> {
+		await prisma.user.update({
+			where: { id: userId },
+			data: { tokensRevokedAt: new Date() },
+		});
+
+		await sessionService.revokeAllForUser(userId);
+	},
+
+	async isTokenRevoked(payload: JwtPayload): Promise<boolean> {
+		// Tokens minted before jti was introduced cannot be revoked individually
+		if (!payload.jti) {
+			return true;
+		}
+
+		const [revokedToken, user] = await Promise.all([
+			prisma.revokedToken.findUnique({ where: { jti: payload.jti } }),
+			prisma.user.findUnique({
+				where: { id: payload.userId },
+				select: { tokensRevokedAt: true },
+			}),
+		]);
+
+		if (revokedToken) {
+			return true;
+		}
+
+		// The whole login (device) may have been signed out
+		if (payload.sid && (await sessionService.isRevoked(payload.sid))) {
+			return true;
+		}
+
+		// Tokens with a session are covered by the check above, since revoking everything also
+		// revokes every session. The others only have iat, which has second precision, so a token
+		// from the same second as the revocation counts as revoked too.
+		if (!payload.sid && user?.tokensRevokedAt && payload.iat !== undefined) {
+			return payload.iat <= Math.floor(user.tokensRevokedAt.getTime() / 1000);
+		}
+
+		return false;
+	},
+
+	// Remove revocation entries and one-time tokens that have expired on their own,
+	// and stale sessions and security events past their retention
+	async purgeExpiredTokens(): Promise<Record<string, number>> {
+		const now = new Date();
+
+		const [revokedTokens, refreshTokens, passwordResetTokens, magicLinkTokens, twoFactorChallenges] =
+			await prisma.$transaction([
+				prisma.revokedToken.deleteMany({ where: { expiresAt: { lt: now } } }),
+				prisma.refreshToken.deleteMany({ where: { expiresAt: { lt: now } } }),
+				prisma.passwordResetToken.deleteMany({ where: { expiresAt: { lt: now } } }),
+				prisma.magicLinkToken.deleteMany({ where: { expiresAt: { lt: now } } }),
+				prisma.twoFactorChallenge.deleteMany({ where: { expiresAt: { lt: now } } }),
+			]);
+
+		return {
+			revokedTokens: revokedTokens.count,
+			refreshTokens: refreshTokens.count,
+			passwordResetTokens: passwordResetTokens.count,
+			magicLinkTokens: magicLinkTokens.count,
+			twoFactorChallenges: twoFactorChallenges.count,
+			sessions: await sessionService.purgeStale(),
+			securityEvents: await securityEventService.purgeExpired(),
+		};
+	},
+
+	async register(userData: RegisterRequest, context?: ClientContext): Promise<AuthResponse | PendingVerificationResponse> {
 		const { name, email, password } = userData;
 
 		// Check if user already exists
@@ -43,6 +362,8 @@ export const authService = {
 			throw new AppError('User with this email already exists', 409);
 		}
 
+		this.assertPasswordPolicy(password, { name, email });
+
 		// Hash password
 		const hashedPassword = await this.hashPassword(password);
 
@@ -56,24 +377,25 @@ export const authService = {
 			},
 		});
 
-		// Generate token
-		const token = this.generateToken({
-			userId: user.id,
-			email: user.email,
-			role: user.role,
-		});
+		await this.sendVerificationEmail(user);
 
-		// Return response without password
-		const { password: _, ...userWithoutPassword } = user;
+		if (CONFIG.EMAIL_VERIFICATION_POLICY === 'block-login') {
+			return {
+				user: toAuthenticatedUser(user),
+				emailVerificationRequired: true,
+			};
+		}
+
+		// Generate access and refresh tokens
+		const tokens = await this.issueTokens(user, context);
 
 		return {
-			user: userWithoutPassword,
-			token,
-			expiresIn: CONFIG.JWT_EXPIRES_IN,
+			user: toAuthenticatedUser(user),
+			...tokens,
 		};
 	},
 
-	async login(credentials: LoginRequest): Promise<AuthResponse> {
+	async login(credentials: LoginRequest, context?: ClientContext): Promise<AuthResponse | TwoFactorChallengeResponse> {
 		const { email, password } = credentials;
 
 		// Find user with password
@@ -81,65 +403,464 @@ export const authService = {
 			where: { email },
 		});
 
-		if (!user || !user.password) {
+		// Unknown, password-less and locked accounts all get the same answer after
+		// the same amount of hashing work, so responses don't reveal which one it was
+		if (!user || !user.password || (user.lockedUntil && user.lockedUntil > new Date())) {
+			await this.comparePassword(password, await getDummyHash());
+			if (user) {
+				const reason = user.password ? 'account_locked' : 'no_password';
+				await securityEventService.record(user.id, 'login.failed', context, { reason });
+			}
 			throw new AppError('Invalid credentials', 401);
 		}
 
+		// Verify password
+		const isPasswordValid = await this.comparePassword(password, user.password);
+		if (!isPasswordValid) {
+			await this.recordFailedLogin(user.id);
+			await securityEventService.record(user.id, 'login.failed', context, { reason: 'invalid_password' });
+			throw new AppError('Invalid credentials', 401);
+		}
+
+		if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+			await this.unlockAccount(user.id);
+		}
+
+		// The plaintext is only available now, so upgrade hashes made under an older policy
+		if (passwordHashing.needsRehash(user.password)) {
+			await prisma.user.update({
+				where: { id: user.id },
+				data: { password: await this.hashPassword(password) },
+			});
+		}
+
+		return this.completeLogin(user, context);
+	},
+
+	// Repeated at every step of signing in, since the account can change between steps
+	async assertCanSignIn(user: User, context?: ClientContext): Promise<void> {
+		// Only reachable with a link or challenge from before the user was deleted; passwords need the old address
+		if (user.deletedAt) {
+			await securityEventService.record(user.id, 'login.failed', context, { reason: 'account_deleted' });
+			throw new AppError('Account has been deleted', 401);
+		}
+
 		if (!user.isActive) {
+			await securityEventService.record(user.id, 'login.failed', context, { reason: 'account_deactivated' });
 			throw new AppError('Account is deactivated', 401);
 		}
 
-		// Verify password
-		const isPasswordValid = await this.comparePassword(password, user.password);
+		if (user.lockedUntil && user.lockedUntil > new Date()) {
+			await securityEventService.record(user.id, 'login.failed', context, { reason: 'account_locked' });
+			throw new AppError('Account is temporarily locked', 401);
+		}
+	},
+
+	// The checks shared by every first factor (password or magic link) before tokens are issued
+	async completeLogin(user: User, context?: ClientContext): Promise<AuthResponse | TwoFactorChallengeResponse> {
+		await this.assertCanSignIn(user, context);
+
+		if (!user.emailVerified && CONFIG.EMAIL_VERIFICATION_POLICY === 'block-login') {
+			await securityEventService.record(user.id, 'login.failed', context, { reason: 'email_not_verified' });
+			throw new AppError('Email address has not been verified', 403);
+		}
+
+		// One factor alone isn't enough: hand out a short-lived challenge for the second step
+		if (user.twoFactorEnabled) {
+			const payload: TwoFactorChallengePayload = { userId: user.id, jti: crypto.randomUUID() };
+			const challengeToken = this.signPurposeToken('two-factor-challenge', payload, CONFIG.TWO_FACTOR_CHALLENGE_EXPIRES_IN);
+
+			// Tracked server-side so that wrong codes use it up
+			const { exp } = jwt.decode(challengeToken) as { exp: number };
+			await prisma.twoFactorChallenge.create({
+				data: { jti: payload.jti, userId: user.id, expiresAt: new Date(exp * 1000) },
+			});
+
+			return {
+				twoFactorRequired: true,
+				challengeToken,
+				expiresIn: CONFIG.TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+			};
+		}
+
+		// Generate access and refresh tokens
+		const tokens = await this.issueTokens(user, context);
+		await securityEventService.record(user.id, 'login.succeeded', context);
+
+		return {
+			user: toAuthenticatedUser(user),
+			...tokens,
+		};
+	},
+
+	// Always resolves the same way so callers can't tell whether the email is registered.
+	// Works for accounts without a password, such as those created through the users API.
+	async requestMagicLink(email: string): Promise<void> {
+		const user = await prisma.user.findUnique({
+			where: { email },
+		});
+
+		if (!user || !user.isActive) {
+			return;
+		}
+
+		// Only the most recent link should work
+		await prisma.magicLinkToken.updateMany({
+			where: { userId: user.id, usedAt: null },
+			data: { usedAt: new Date() },
+		});
+
+		const magicLinkToken = crypto.randomBytes(32).toString('base64url');
+		await prisma.magicLinkToken.create({
+			data: {
+				tokenHash: this.hashToken(magicLinkToken),
+				userId: user.id,
+				expiresAt: new Date(Date.now() + CONFIG.MAGIC_LINK_EXPIRES_IN_MINUTES * 60 * 1000),
+			},
+		});
+
+		await emailService.sendMagicLink(user, magicLinkToken);
+	},
+
+	async loginWithMagicLink(token: string, context?: ClientContext): Promise<AuthResponse | TwoFactorChallengeResponse> {
+		const existing = await prisma.magicLinkToken.findUnique({
+			where: { tokenHash: this.hashToken(token) },
+			include: { user: true },
+		});
+
+		// The account may have been deactivated or deleted since the link was sent
+		if (
+			!existing ||
+			existing.usedAt ||
+			existing.expiresAt < new Date() ||
+			!existing.user.isActive ||
+			existing.user.deletedAt
+		) {
+			throw new AppError('Invalid or expired sign-in link', 401);
+		}
+
+		// Consume the token first so it can't be used twice concurrently
+		const { count } = await prisma.magicLinkToken.updateMany({
+			where: { id: existing.id, usedAt: null },
+			data: { usedAt: new Date() },
+		});
+
+		if (count === 0) {
+			throw new AppError('Invalid or expired sign-in link', 401);
+		}
+
+		let user = existing.user;
+
+		// Opening the link proves the address belongs to the user
+		if (!user.emailVerified) {
+			user = await prisma.user.update({
+				where: { id: user.id },
+				data: { emailVerified: true, emailVerifiedAt: new Date() },
+			});
+		}
+
+		return this.completeLogin(user, context);
+	},
+
+	async changePassword(
+		userId: number,
+		currentPassword: string,
+		newPassword: string,
+		context?: ClientContext
+	): Promise<AuthResponse> {
+		const user = await prisma.user.findUnique({
+			where: { id: userId },
+		});
+
+		if (!user || !user.isActive) {
+			throw new AppError('User not found or inactive', 401);
+		}
+
+		if (!user.password) {
+			throw new AppError('Account has no password set', 400);
+		}
+
+		const isPasswordValid = await this.comparePassword(currentPassword, user.password);
 		if (!isPasswordValid) {
-			throw new AppError('Invalid credentials', 401);
+			throw new AppError('Current password is incorrect', 401);
 		}
 
-		// Generate token
-		const token = this.generateToken({
-			userId: user.id,
-			email: user.email,
-			role: user.role,
+		const isSamePassword = await this.comparePassword(newPassword, user.password);
+		if (isSamePassword) {
+			throw new AppError('New password must be different from the current password', 400);
+		}
+
+		this.assertPasswordPolicy(newPassword, user);
+
+		const updatedUser = await prisma.user.update({
+			where: { id: userId },
+			data: { password: await this.hashPassword(newPassword) },
 		});
 
-		// Return response without password
-		const { password: _, ...userWithoutPassword } = user;
+		await securityEventService.record(userId, 'password.changed', context, { method: 'change' });
+
+		// Sign out every existing session, then hand the caller a fresh token pair
+		await this.revokeAllUserTokens(userId);
+		const tokens = await this.issueTokens(updatedUser, context);
 
 		return {
-			user: userWithoutPassword,
-			token,
-			expiresIn: CONFIG.JWT_EXPIRES_IN,
+			user: toAuthenticatedUser(updatedUser),
+			...tokens,
 		};
 	},
 
+	async sendVerificationEmail(user: User): Promise<void> {
+		const payload: EmailVerificationPayload = { userId: user.id, email: user.email };
+		const token = this.signPurposeToken('email-verification', payload, CONFIG.EMAIL_VERIFICATION_EXPIRES_IN);
+
+		await emailService.sendEmailVerification(user, token);
+	},
+
+	async verifyEmail(token: string): Promise<AuthenticatedUser> {
+		const payload = this.verifyPurposeToken<EmailVerificationPayload>('email-verification', token);
+
+		const user = await prisma.user.findUnique({
+			where: { id: payload.userId },
+		});
+
+		// The link is only valid for the address it was sent to, and not for deleted accounts
+		if (!user || user.deletedAt || user.email !== payload.email) {
+			throw new AppError('Invalid or expired token', 400);
+		}
+
+		if (user.emailVerified) {
+			return toAuthenticatedUser(user);
+		}
+
+		const updatedUser = await prisma.user.update({
+			where: { id: user.id },
+			data: { emailVerified: true, emailVerifiedAt: new Date() },
+		});
+
+		return toAuthenticatedUser(updatedUser);
+	},
+
+	// Like password reset, never reveals whether the address is registered
+	async resendVerificationEmail(email: string): Promise<void> {
+		const user = await prisma.user.findUnique({
+			where: { email },
+		});
+
+		if (!user || !user.isActive || user.emailVerified) {
+			return;
+		}
+
+		await this.sendVerificationEmail(user);
+	},
+
+	// Always resolves the same way so callers can't tell whether the email is registered
+	async requestPasswordReset(email: string): Promise<void> {
+		const user = await prisma.user.findUnique({
+			where: { email },
+		});
+
+		if (!user || !user.isActive) {
+			return;
+		}
+
+		// Only the most recent link should work
+		await prisma.passwordResetToken.updateMany({
+			where: { userId: user.id, usedAt: null },
+			data: { usedAt: new Date() },
+		});
+
+		const resetToken = crypto.randomBytes(32).toString('base64url');
+		await prisma.passwordResetToken.create({
+			data: {
+				tokenHash: this.hashToken(resetToken),
+				userId: user.id,
+				expiresAt: new Date(Date.now() + CONFIG.PASSWORD_RESET_EXPIRES_IN_MINUTES * 60 * 1000),
+			},
+		});
+
+		await emailService.sendPasswordReset(user, resetToken);
+	},
+
+	async resetPassword(resetToken: string, newPassword: string, context?: ClientContext): Promise<void> {
+		const existing = await prisma.passwordResetToken.findUnique({
+			where: { tokenHash: this.hashToken(resetToken) },
+			include: { user: true },
+		});
+
+		// The account may have been deactivated or deleted since the link was sent
+		if (
+			!existing ||
+			existing.usedAt ||
+			existing.expiresAt < new Date() ||
+			!existing.user.isActive ||
+			existing.user.deletedAt
+		) {
+			throw new AppError('Invalid or expired reset token', 400);
+		}
+
+		// Checked before consuming the token, so the user can retry with a better password
+		this.assertPasswordPolicy(newPassword, existing.user);
+
+		// Consume the token first so it can't be used twice concurrently
+		const { count } = await prisma.passwordResetToken.updateMany({
+			where: { id: existing.id, usedAt: null },
+			data: { usedAt: new Date() },
+		});
+
+		if (count === 0) {
+			throw new AppError('Invalid or expired reset token', 400);
+		}
+
+		await prisma.user.update({
+			where: { id: existing.userId },
+			data: { password: await this.hashPassword(newPassword) },
+		});
+		await securityEventService.record(existing.userId, 'password.changed', context, { method: 'reset' });
+
+		// Whoever knew the old password shouldn't stay signed in
+		await this.revokeAllUserTokens(existing.userId);
+	},
+
+	// Count a failed password (or second factor) and lock the account once the threshold is reached.
+	// Each failure past the threshold doubles the lock window, up to the configured maximum.
+	async recordFailedLogin(userId: number): Promise<void> {
+		const { failedLoginAttempts } = await prisma.user.update({
+			where: { id: userId },
+			data: { failedLoginAttempts: { increment: 1 } },
+			select: { failedLoginAttempts: true },
+		});
+
+		const excessFailures = failedLoginAttempts - CONFIG.LOGIN_LOCKOUT_THRESHOLD;
+		if (excessFailures < 0) {
+			return;
+		}
+
+		const lockSeconds = Math.min(
+			CONFIG.LOGIN_LOCKOUT_BASE_SECONDS * 2 ** excessFailures,
+			CONFIG.LOGIN_LOCKOUT_MAX_SECONDS
+		);
+
+		await prisma.user.update({
+			where: { id: userId },
+			data: { lockedUntil: new Date(Date.now() + lockSeconds * 1000) },
+		});
+	},
+
+	async unlockAccount(userId: number): Promise<AuthenticatedUser | null> {
+		try {
+			const user = await prisma.user.update({
+				where: { id: userId, deletedAt: null },
+				data: { failedLoginAttempts: 0, lockedUntil: null },
+			});
+
+			return toAuthenticatedUser(user);
+		} catch (error) {
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+				return null;
+			}
+			throw error;
+		}
+	},
+
 	async getUserById(id: number): Promise<AuthenticatedUser | null> {
 		const user = await prisma.user.findUnique({
-			where: { id, isActive: true },
+			where: { id, isActive: true, deletedAt: null },
 		});
 
 		if (!user) {
 			return null;
 		}
 
-		// Return user without password
-		const { password: _, ...userWithoutPassword } = user;
-		return userWithoutPassword as AuthenticatedUser;
+		return toAuthenticatedUser(user);
 	},
 
-	async updateUserRole(userId: number, role: UserRole): Promise<AuthenticatedUser | null> {
-		const user = await prisma.user.update({
-			where: { id: userId },
-			data: { role },
+	// Nobody can change their own role, which also stops admins demoting themselves
+	async updateUserRole(
+		userId: number,
+		role: UserRole,
+		actingUserId: number,
+		context?: ClientContext
+	): Promise<AuthenticatedUser | null> {
+		if (userId === actingUserId) {
+			throw new AppError('You cannot change your own role', 403);
+		}
+
+		const result = await prisma.$transaction(async (tx) => {
+			const existing = await tx.user.findUnique({ where: { id: userId, deletedAt: null } });
+			if (!existing) {
+				return null;
+			}
+
+			if (existing.role === 'ADMIN' && existing.isActive && role !== 'ADMIN') {
+				await assertAnotherActiveAdmin(tx, userId);
+			}
+
+			const updated = await tx.user.update({
+				where: { id: userId },
+				data: { role },
+			});
+
+			return { previousRole: existing.role, updated };
 		});
 
-		const { password: _, ...userWithoutPassword } = user;
-		return userWithoutPassword as AuthenticatedUser;
+		if (!result) {
+			return null;
+		}
+
+		if (result.previousRole !== role) {
+			await securityEventService.record(userId, 'role.changed', context, {
+				from: result.previousRole,
+				to: role,
+				changedBy: actingUserId,
+			});
+		}
+
+		return toAuthenticatedUser(result.updated);
 	},
 
-	async deactivateUser(userId: number): Promise<void> {
-		await prisma.user.update({
-			where: { id: userId },
-			data: { isActive: false },
+	// Deactivated accounts can't log in, and every existing session is ended
+	async deactivateUser(userId: number, actingUserId: number): Promise<AuthenticatedUser | null> {
+		if (userId === actingUserId) {
+			throw new AppError('You cannot deactivate your own account', 403);
+		}
+
+		const user = await prisma.$transaction(async (tx) => {
+			const existing = await tx.user.findUnique({ where: { id: userId, deletedAt: null } });
+			if (!existing) {
+				return null;
+			}
+
+			if (existing.role === 'ADMIN' && existing.isActive) {
+				await assertAnotherActiveAdmin(tx, userId);
+			}
+
+			return tx.user.update({
+				where: { id: userId },
+				data: { isActive: false },
+			});
 		});
+
+		if (!user) {
+			return null;
+		}
+
+		await this.revokeAllUserTokens(userId);
+		return toAuthenticatedUser(user);
+	},
+
+	async reactivateUser(userId: number): Promise<AuthenticatedUser | null> {
+		try {
+			const user = await prisma.user.update({
+				where: { id: userId, deletedAt: null },
+				data: { isActive: true },
+			});
+
+			return toAuthenticatedUser(user);
+		} catch (error) {
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+				return null;
+			}
+			throw error;
+		}
 	},
 };
@@ -0,0 +1,112 @@
+import { CONFIG } from '../config';
+import { mailer } from '../lib/mailer';
+
+interface Recipient {
+	name: string;
+	email: string;
+}
+
+export const emailService = {
+	async sendPasswordReset(user: Recipient, token: string): Promise<void> {
+		const link = `${CONFIG.APP_URL}/web/reset-password?token=${encodeURIComponent(token)}`;
+
+		await mailer.send({
+			to: user.email,
+			subject: 'Reset your password',
+			text: [
+				`Hi ${user.name},`,
+				'',
+				'We received a request to reset your password. Use the link below to choose a new one:',
+				link,
+				'',
+				`This link expires in ${CONFIG.PASSWORD_RESET_EXPIRES_IN_MINUTES} minutes and can only be used once.`,
+				"If you didn't request a reset, you can safely ignore this email.",
+			].join('\n'),
+		});
+	},
+
+	async sendMagicLink(user: Recipient, token: string): Promise<void> {
+		const link = `${CONFIG.APP_URL}/web/magic-link?token=${encodeURIComponent(token)}`;
+
+		await mailer.send({
+			to: user.email,
+			subject: 'Your sign-in link',
+			text: [
+				`Hi ${user.name},`,
+				'',
+				'Use the link below to sign in. No password is needed:',
+				link,
+				'',
+				`This link expires in ${CONFIG.MAGIC_LINK_EXPIRES_IN_MINUTES} minutes and can only be used once.`,
+				"If you didn't ask to sign in, you can safely ignore this email.",
+			].join('\n'),
+		});
+	},
+
+	async sendInvitation(user: Recipient, token: string, invitedBy: Recipient | null): Promise<void> {
+		const link = `${CONFIG.APP_URL}/web/accept-invitation?token=${encodeURIComponent(token)}`;
+
+		await mailer.send({
+			to: user.email,
+			subject: "You've been invited",
+			text: [
+				`Hi ${user.name},`,
+				'',
+				`${invitedBy ? invitedBy.name : 'An administrator'} created an account for you. Use the link below to choose a password:`,
+				link,
+				'',
+				`This link expires in ${CONFIG.INVITATION_EXPIRES_IN_DAYS} days.`,
+			].join('\n'),
+		});
+	},
+
+	async sendEmailVerification(user: Recipient, token: string): Promise<void> {
+		const link = `${CONFIG.APP_URL}/web/verify-email?token=${encodeURIComponent(token)}`;
+
+		await mailer.send({
+			to: user.email,
+			subject: 'Verify your email address',
+			text: [
+				`Hi ${user.name},`,
+				'',
+				'Please confirm that this is your email address by opening the link below:',
+				link,
+				'',
+				`This link expires in ${CONFIG.EMAIL_VERIFICATION_EXPIRES_IN}.`,
+			].join('\n'),
+		});
+	},
+
+	async sendAccountDeletionConfirmation(user: Recipient, token: string): Promise<void> {
+		const link = `${CONFIG.APP_URL}/web/confirm-deletion?token=${encodeURIComponent(token)}`;
+
+		await mailer.send({
+			to: user.email,
+			subject: 'Confirm deleting your account',
+			text: [
+				`Hi ${user.name},`,
+				'',
+				'We received a request to delete your account. Use the link below to confirm it:',
+				link,
+				'',
+				`This link expires in ${CONFIG.ACCOUNT_DELETION_CONFIRMATION_EXPIRES_IN}.`,
+				"If you didn't ask for this, you can safely ignore this email.",
+			].join('\n'),
+		});
+	},
+
+	async sendAccountDeletionScheduled(user: Recipient, deletionScheduledAt: Date): Promise<void> {
+		await mailer.send({
+			to: user.email,
+			subject: 'Your account is scheduled for deletion',
+			text: [
+				`Hi ${user.name},`,
+				'',
+				`We received a request to delete your account. It and its data will be erased on ${deletionScheduledAt.toUTCString()}.`,
+				'',
+				'To keep your account, log in and cancel the deletion before then.',
+				"If you didn't ask for this, log in, cancel the deletion and change your password.",
+			].join('\n'),
+		});
+	},
+};
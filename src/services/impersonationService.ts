@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { CONFIG } from '../config';
+import { logError } from '../lib/logger';
+import { AppError } from '../middleware/errorHandler';
+import { authService } from './authService';
+import { ImpersonationResponse, RequestUser } from '../types/auth';
+
+interface ImpersonationContext {
+	impersonationId: string;
+	actorId: number;
+	targetUserId: number;
+}
+
+export const impersonationService = {
+	// Issue a short-lived, non-refreshable access token for the target that names the actor in its "act" claim
+	async start(actor: RequestUser, targetUserId: number): Promise<ImpersonationResponse> {
+		if (actor.id === targetUserId) {
+			throw new AppError('You cannot impersonate yourself', 400);
+		}
+
+		const target = await authService.getUserById(targetUserId);
+		if (!target) {
+			throw new AppError('User not found', 404);
+		}
+
+		if (target.role === 'ADMIN') {
+			throw new AppError('Administrators cannot be impersonated', 403);
+		}
+
+		const token = authService.generateToken(
+			{
+				userId: target.id,
+				email: target.email,
+				role: target.role,
+				act: { userId: actor.id, email: actor.email },
+			},
+			CONFIG.IMPERSONATION_EXPIRES_IN
+		);
+		const { jti, exp } = authService.verifyToken(token);
+
+		return {
+			impersonationId: jti!,
+			token,
+			expiresIn: CONFIG.IMPERSONATION_EXPIRES_IN,
+			user: target,
+			impersonation: {
+				actor: { id: actor.id, name: actor.name, email: actor.email },
+				expiresAt: new Date(exp! * 1000),
+			},
+		};
+	},
+
+	// The entry is written before the request is handled, so nothing goes unlogged
+	// even if the handler fails; the status code is added once the response is sent.
+	async audit(context: ImpersonationContext, req: Request, res: Response): Promise<void> {
+		const entry = await prisma.impersonationAuditLog.create({
+			data: {
+				...context,
+				method: req.method,
+				path: req.originalUrl,
+				ipAddress: req.ip,
+			},
+		});
+
+		res.on('finish', () => {
+			prisma.impersonationAuditLog
+				.update({ where: { id: entry.id }, data: { statusCode: res.statusCode } })
+				.catch((error) => logError('Failed to record impersonation status code', error));
+		});
+	},
+};
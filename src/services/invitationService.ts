@@ -0,0 +1,167 @@
+import { Invitation, Prisma, User } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CONFIG } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { authService } from './authService';
+import { emailService } from './emailService';
+import {
+	AuthResponse,
+	ClientContext,
+	InvitationInfo,
+	InvitationPayload,
+	InvitationStatus,
+	TwoFactorChallengeResponse,
+} from '../types/auth';
+
+const TOKEN_PURPOSE = 'invitation';
+
+type InvitationWithUsers = Invitation & { user: User; invitedBy: User | null };
+
+const includeUsers = { user: true, invitedBy: true } as const;
+
+const statusOf = (invitation: Invitation): InvitationStatus => {
+	if (invitation.acceptedAt) {
+		return 'accepted';
+	}
+
+	return invitation.expiresAt > new Date() ? 'pending' : 'expired';
+};
+
+const toInvitationInfo = (invitation: InvitationWithUsers): InvitationInfo => ({
+	id: invitation.id,
+	status: statusOf(invitation),
+	user: { id: invitation.user.id, name: invitation.user.name, email: invitation.user.email },
+	invitedBy: invitation.invitedBy
+		? { id: invitation.invitedBy.id, name: invitation.invitedBy.name, email: invitation.invitedBy.email }
+		: null,
+	sentAt: invitation.sentAt,
+	expiresAt: invitation.expiresAt,
+	acceptedAt: invitation.acceptedAt,
+});
+
+const expiresAtFromNow = (): Date => new Date(Date.now() + CONFIG.INVITATION_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000);
+
+// Mail a link for the invitation's current version
+const send = async (invitation: InvitationWithUsers): Promise<void> => {
+	const payload: InvitationPayload = { invitationId: invitation.id, version: invitation.tokenVersion };
+	const token = authService.signPurposeToken(TOKEN_PURPOSE, payload, `${CONFIG.INVITATION_EXPIRES_IN_DAYS}d`);
+
+	await emailService.sendInvitation(invitation.user, token, invitation.invitedBy);
+};
+
+const whereStatus = (status: InvitationStatus | undefined): Prisma.InvitationWhereInput => {
+	switch (status) {
+		case 'pending':
+			return { acceptedAt: null, expiresAt: { gt: new Date() } };
+		case 'expired':
+			return { acceptedAt: null, expiresAt: { lte: new Date() } };
+		case 'accepted':
+			return { acceptedAt: { not: null } };
+		default:
+			return { acceptedAt: null }; // Everything still waiting on the invitee
+	}
+};
+
+export const invitationService = {
+	// Invite a user who was created without a password
+	async invite(user: User, invitedById?: number): Promise<InvitationInfo> {
+		const invitation = await prisma.invitation.create({
+			data: {
+				userId: user.id,
+				invitedById,
+				expiresAt: expiresAtFromNow(),
+			},
+			include: includeUsers,
+		});
+
+		await send(invitation);
+
+		return toInvitationInfo(invitation);
+	},
+
+	async list(status?: InvitationStatus): Promise<InvitationInfo[]> {
+		const invitations = await prisma.invitation.findMany({
+			where: { ...whereStatus(status), user: { deletedAt: null } },
+			include: includeUsers,
+			orderBy: { sentAt: 'desc' },
+		});
+
+		return invitations.map(toInvitationInfo);
+	},
+
+	// Send a fresh link with a new expiry. Links sent earlier stop working.
+	// Returns null if the invitation doesn't exist or the invitee has been deleted.
+	async resend(id: number): Promise<InvitationInfo | null> {
+		const existing = await prisma.invitation.findFirst({ where: { id, user: { deletedAt: null } } });
+		if (!existing) {
+			return null;
+		}
+
+		if (existing.acceptedAt) {
+			throw new AppError('Invitation has already been accepted', 409);
+		}
+
+		const invitation = await prisma.invitation.update({
+			where: { id },
+			data: {
+				tokenVersion: { increment: 1 },
+				sentAt: new Date(),
+				expiresAt: expiresAtFromNow(),
+			},
+			include: includeUsers,
+		});
+
+		await send(invitation);
+
+		return toInvitationInfo(invitation);
+	},
+
+	// Set the invitee's first password and sign them in
+	async accept(
+		token: string,
+		password: string,
+		context?: ClientContext
+	): Promise<AuthResponse | TwoFactorChallengeResponse> {
+		const payload = authService.verifyPurposeToken<InvitationPayload>(TOKEN_PURPOSE, token);
+
+		const invitation = await prisma.invitation.findUnique({
+			where: { id: payload.invitationId },
+			include: { user: true },
+		});
+
+		if (
+			!invitation ||
+			invitation.tokenVersion !== payload.version ||
+			invitation.acceptedAt ||
+			invitation.expiresAt < new Date() ||
+			!invitation.user.isActive ||
+			invitation.user.deletedAt
+		) {
+			throw new AppError('Invalid or expired invitation', 400);
+		}
+
+		authService.assertPasswordPolicy(password, invitation.user);
+
+		// Mark it accepted first so the same link can't set the password twice concurrently
+		const { count } = await prisma.invitation.updateMany({
+			where: { id: invitation.id, tokenVersion: payload.version, acceptedAt: null },
+			data: { acceptedAt: new Date() },
+		});
+
+		if (count === 0) {
+			throw new AppError('Invalid or expired invitation', 400);
+		}
+
+		// The link was delivered to the address, so it counts as verified
+		const user = await prisma.user.update({
+			where: { id: invitation.userId },
+			data: {
+				password: await authService.hashPassword(password),
+				emailVerified: true,
+				emailVerifiedAt: invitation.user.emailVerifiedAt ?? new Date(),
+			},
+		});
+
+		return authService.completeLogin(user, context);
+	},
+};
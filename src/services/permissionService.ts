@@ -0,0 +1,32 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { PermissionKey } from '../types/auth';
+
+// Role permissions change rarely, so they're cached briefly instead of queried on every request
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache: { loadedAt: number; byRole: Map<UserRole, PermissionKey[]> } | null = null;
+
+export const permissionService = {
+	async getPermissionsForRole(role: UserRole): Promise<PermissionKey[]> {
+		if (!cache || Date.now() - cache.loadedAt > CACHE_TTL_MS) {
+			const rows = await prisma.rolePermission.findMany({
+				include: { permission: true },
+			});
+
+			const byRole = new Map<UserRole, PermissionKey[]>();
+			for (const row of rows) {
+				byRole.set(row.role, [...(byRole.get(row.role) ?? []), row.permission.key as PermissionKey]);
+			}
+
+			cache = { loadedAt: Date.now(), byRole };
+		}
+
+		return cache.byRole.get(role) ?? [];
+	},
+
+	// Pick up role_permissions changes immediately instead of after the cache expires
+	clearCache(): void {
+		cache = null;
+	},
+};
@@ -0,0 +1,63 @@
+import { SecurityEvent } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CONFIG } from '../config';
+import { PaginatedResult } from '../types';
+import { ClientContext, SecurityEventInfo, SecurityEventType } from '../types/auth';
+
+export const toSecurityEventInfo = (event: SecurityEvent): SecurityEventInfo => ({
+	id: event.id,
+	type: event.type as SecurityEventType,
+	ipAddress: event.ipAddress,
+	userAgent: event.userAgent,
+	requestId: event.requestId,
+	details: event.details ? JSON.parse(event.details) : null,
+	createdAt: event.createdAt,
+});
+
+export const securityEventService = {
+	async record(
+		userId: number,
+		type: SecurityEventType,
+		context: ClientContext = {},
+		details?: Record<string, unknown>
+	): Promise<void> {
+		await prisma.securityEvent.create({
+			data: {
+				userId,
+				type,
+				ipAddress: context.ipAddress,
+				userAgent: context.userAgent?.substring(0, 512),
+				requestId: context.requestId,
+				details: details && JSON.stringify(details),
+			},
+		});
+	},
+
+	// Newest first
+	async listForUser(userId: number, page: number, pageSize: number): Promise<PaginatedResult<SecurityEventInfo>> {
+		const [events, total] = await prisma.$transaction([
+			prisma.securityEvent.findMany({
+				where: { userId },
+				orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+				skip: (page - 1) * pageSize,
+				take: pageSize,
+			}),
+			prisma.securityEvent.count({ where: { userId } }),
+		]);
+
+		return {
+			items: events.map(toSecurityEventInfo),
+			meta: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+		};
+	},
+
+	async purgeExpired(): Promise<number> {
+		const cutoff = new Date(Date.now() - CONFIG.SECURITY_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+		const { count } = await prisma.securityEvent.deleteMany({
+			where: { createdAt: { lt: cutoff } },
+		});
+
+		return count;
+	},
+};
@@ -0,0 +1,111 @@
+import { Session } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CONFIG } from '../config';
+import { ClientContext, SessionInfo } from '../types/auth';
+
+// Avoid a database write on every request just to bump lastSeenAt
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const toSessionInfo = (session: Session): SessionInfo => ({
+	id: session.id,
+	userAgent: session.userAgent,
+	ipAddress: session.ipAddress,
+	createdAt: session.createdAt,
+	lastSeenAt: session.lastSeenAt,
+});
+
+export const sessionService = {
+	async create(userId: number, context: ClientContext = {}): Promise<Session> {
+		return prisma.session.create({
+			data: {
+				userId,
+				userAgent: context.userAgent?.substring(0, 512),
+				ipAddress: context.ipAddress,
+			},
+		});
+	},
+
+	async touch(sessionId: string, context: ClientContext = {}): Promise<void> {
+		await prisma.session.updateMany({
+			where: {
+				id: sessionId,
+				revokedAt: null,
+				lastSeenAt: { lt: new Date(Date.now() - LAST_SEEN_RESOLUTION_MS) },
+			},
+			data: {
+				lastSeenAt: new Date(),
+				...(context.ipAddress && { ipAddress: context.ipAddress }),
+			},
+		});
+	},
+
+	async isRevoked(sessionId: string): Promise<boolean> {
+		const session = await prisma.session.findUnique({
+			where: { id: sessionId },
+			select: { revokedAt: true },
+		});
+
+		return !session || session.revokedAt !== null;
+	},
+
+	async listForUser(userId: number, currentSessionId?: string): Promise<SessionInfo[]> {
+		const sessions = await prisma.session.findMany({
+			where: { userId, revokedAt: null },
+			orderBy: { lastSeenAt: 'desc' },
+		});
+
+		return sessions.map((session) => ({
+			...toSessionInfo(session),
+			current: session.id === currentSessionId,
+		}));
+	},
+
+	// Revoke one session and its refresh tokens. Returns false if it doesn't belong to the user.
+	async revoke(sessionId: string, userId?: number): Promise<boolean> {
+		const session = await prisma.session.findUnique({ where: { id: sessionId } });
+		if (!session || (userId !== undefined && session.userId !== userId)) {
+			return false;
+		}
+
+		const now = new Date();
+		await prisma.$transaction([
+			prisma.session.updateMany({
+				where: { id: sessionId, revokedAt: null },
+				data: { revokedAt: now },
+			}),
+			prisma.refreshToken.updateMany({
+				where: { sessionId, revokedAt: null },
+				data: { revokedAt: now },
+			}),
+		]);
+
+		return true;
+	},
+
+	async revokeAllForUser(userId: number): Promise<void> {
+		const now = new Date();
+		await prisma.$transaction([
+			prisma.session.updateMany({
+				where: { userId, revokedAt: null },
+				data: { revokedAt: now },
+			}),
+			prisma.refreshToken.updateMany({
+				where: { userId, revokedAt: null },
+				data: { revokedAt: now },
+			}),
+		]);
+	},
+
+	// Sessions that were revoked, or idle for longer than a refresh token lives, can't be resumed
+	async purgeStale(): Promise<number> {
+		const cutoff = new Date(Date.now() - CONFIG.REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000);
+
+		const { count } = await prisma.session.deleteMany({
+			where: {
+				OR: [{ revokedAt: { lt: cutoff } }, { lastSeenAt: { lt: cutoff } }],
+			},
+		});
+
+		return count;
+	},
+};
@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import { User } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CONFIG } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { generateSecret, verifyCode, buildOtpAuthUri } from '../lib/totp';
+import { authService } from './authService';
+import { securityEventService } from './securityEventService';
+import { AuthResponse, ClientContext, TwoFactorChallengePayload, TwoFactorSetupResponse } from '../types/auth';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are compared case-insensitively and without separators
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toUpperCase();
+
+// 16 hex characters (64 bits) formatted as XXXX-XXXX-XXXX-XXXX
+const generateRecoveryCode = (): string =>
+	crypto
+		.randomBytes(8)
+		.toString('hex')
+		.toUpperCase()
+		.match(/.{4}/g)!
+		.join('-');
+
+export const twoFactorService = {
+	// Start enrollment: store a pending secret and return it for the authenticator app
+	async setup(userId: number): Promise<TwoFactorSetupResponse> {
+		const user = await prisma.user.findUnique({ where: { id: userId } });
+		if (!user) {
+			throw new AppError('User not found', 404);
+		}
+
+		if (user.twoFactorEnabled) {
+			throw new AppError('Two-factor authentication is already enabled', 409);
+		}
+
+		const secret = generateSecret();
+		await prisma.user.update({
+			where: { id: userId },
+			data: { twoFactorSecret: secret, twoFactorLastUsedStep: null },
+		});
+
+		return {
+			secret,
+			otpauthUri: buildOtpAuthUri(secret, user.email, CONFIG.TWO_FACTOR_ISSUER),
+		};
+	},
+
+	// Finish enrollment by proving the authenticator app produces valid codes
+	async enable(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+		const user = await prisma.user.findUnique({ where: { id: userId } });
+		if (!user) {
+			throw new AppError('User not found', 404);
+		}
+
+		if (user.twoFactorEnabled) {
+			throw new AppError('Two-factor authentication is already enabled', 409);
+		}
+
+		if (!user.twoFactorSecret) {
+			throw new AppError('Two-factor setup has not been started', 400);
+		}
+
+		const step = verifyCode(user.twoFactorSecret, code);
+		if (step === null) {
+			throw new AppError('Invalid authentication code', 400);
+		}
+
+		await prisma.user.update({
+			where: { id: userId },
+			data: { twoFactorEnabled: true, twoFactorLastUsedStep: step },
+		});
+
+		const recoveryCodes = await this.regenerateRecoveryCodes(userId);
+		return { recoveryCodes };
+	},
+
+	async disable(userId: number, password: string, code: string): Promise<void> {
+		const user = await prisma.user.findUnique({ where: { id: userId } });
+		if (!user) {
+			throw new AppError('User not found', 404);
+		}
+
+		if (!user.twoFactorEnabled) {
+			throw new AppError('Two-factor authentication is not enabled', 400);
+		}
+
+		if (!user.password || !(await authService.comparePassword(password, user.password))) {
+			throw new AppError('Password is incorrect', 401);
+		}
+
+		if (!(await this.verifySecondFactor(user, code))) {
+			throw new AppError('Invalid authentication code', 401);
+		}
+
+		await prisma.$transaction([
+			prisma.user.update({
+				where: { id: userId },
+				data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastUsedStep: null },
+			}),
+			prisma.recoveryCode.deleteMany({ where: { userId } }),
+		]);
+	},
+
+	// Replace any existing recovery codes. The plain codes are only returned here.
+	async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+		const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+		await prisma.$transaction([
+			prisma.recoveryCode.deleteMany({ where: { userId } }),
+			prisma.recoveryCode.createMany({
+				data: codes.map((code) => ({
+					userId,
+					codeHash: authService.hashToken(normalizeRecoveryCode(code)),
+				})),
+			}),
+		]);
+
+		return codes;
+	},
+
+	// Accepts either a current TOTP code or an unused recovery code
+	async verifySecondFactor(user: User, code: string): Promise<boolean> {
+		if (user.twoFactorSecret) {
+			const step = verifyCode(user.twoFactorSecret, code);
+
+			if (step !== null) {
+				// Only accept each time step once, so an intercepted code can't be replayed
+				const { count } = await prisma.user.updateMany({
+					where: {
+						id: user.id,
+						OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+					},
+					data: { twoFactorLastUsedStep: step },
+				});
+				return count === 1;
+			}
+		}
+
+		const { count } = await prisma.recoveryCode.updateMany({
+			where: {
+				userId: user.id,
+				codeHash: authService.hashToken(normalizeRecoveryCode(code)),
+				usedAt: null,
+			},
+			data: { usedAt: new Date() },
+		});
+
+		return count === 1;
+	},
+
+	// Second step of login: exchange the challenge token and a code for a session
+	async completeLogin(challengeToken: string, code: string, context?: ClientContext): Promise<AuthResponse> {
+		const payload = authService.verifyPurposeToken<TwoFactorChallengePayload>('two-factor-challenge', challengeToken, 401);
+
+		const challenge = await prisma.twoFactorChallenge.findUnique({ where: { jti: payload.jti }, include: { user: true } });
+		if (!challenge || challenge.userId !== payload.userId || !challenge.user.twoFactorEnabled) {
+			throw new AppError('Invalid or expired token', 401);
+		}
+
+		const { user } = challenge;
+		await authService.assertCanSignIn(user, context);
+
+		// Take one of the challenge's attempts before checking the code, so concurrent guesses are counted too
+		const { count } = await prisma.twoFactorChallenge.updateMany({
+			where: { jti: challenge.jti, attempts: { lt: CONFIG.TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS } },
+			data: { attempts: { increment: 1 } },
+		});
+		if (count === 0) {
+			throw new AppError('Invalid or expired token', 401);
+		}
+
+		if (!(await this.verifySecondFactor(user, code))) {
+			await authService.recordFailedLogin(user.id);
+			await securityEventService.record(user.id, 'login.failed', context, { reason: 'invalid_two_factor_code' });
+			throw new AppError('Invalid authentication code', 401);
+		}
+
+		// Consume the challenge so it can't be used for a second session
+		const { count: consumed } = await prisma.twoFactorChallenge.deleteMany({ where: { jti: challenge.jti } });
+		const authenticatedUser = consumed === 1 ? await authService.getUserById(user.id) : null;
+		if (!authenticatedUser) {
+			throw new AppError('Invalid or expired token', 401);
+		}
+
+		if (user.failedLoginAttempts > 0) {
+			await authService.unlockAccount(user.id);
+		}
+
+		const tokens = await authService.issueTokens(user, context);
+		await securityEventService.record(user.id, 'login.succeeded', context, { twoFactor: true });
+
+		return {
+			user: authenticatedUser,
+			...tokens,
+		};
+	},
+};
@@ -1,20 +1,236 @@
 import { prisma } from '../lib/prisma';
-import { User } from '@prisma/client';
+import { Prisma, User } from '@prisma/client';
+import { CONFIG } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { assertAnotherActiveAdmin, authService } from './authService';
+import { CursorPaginationMeta, PaginatedResult, UserListQuery, UserSearchResult, UserSortField } from '../types';
+import { decodeCursor, encodeCursor } from '../utils/pagination';
+
+interface SortKey {
+	field: UserSortField | 'id';
+	direction: Prisma.SortOrder;
+}
+
+// Most recent first unless the client asks otherwise
+const DEFAULT_SORT = '-createdAt';
+
+// Turn "-createdAt,name" into sort keys. The id always comes last, so users that tie on
+// every other field still have a fixed order and cursors can point between them.
+const parseSort = (sort: string): SortKey[] => [
+	...sort.split(',').map((field): SortKey =>
+		field.startsWith('-')
+			? { field: field.slice(1) as UserSortField, direction: 'desc' }
+			: { field: field as UserSortField, direction: 'asc' }
+	),
+	{ field: 'id', direction: 'desc' },
+];
+
+const toOrderBy = (keys: SortKey[]): Prisma.UserOrderByWithRelationInput[] =>
+	keys.map(({ field, direction }) => ({ [field]: direction }));
+
+const toWhere = (query: UserListQuery): Prisma.UserWhereInput => ({
+	deletedAt: null,
+	role: query.role,
+	isActive: query.isActive,
+	createdAt: { gte: query.createdFrom, lt: query.createdBefore },
+	updatedAt: { gte: query.updatedFrom, lt: query.updatedBefore },
+	...(query.search && {
+		OR: [{ name: { contains: query.search } }, { email: { contains: query.search } }],
+	}),
+});
+
+// Users that come after the position in the sort order: those past it on the first key,
+// or equal on the first key and past it on the second, and so on
+const afterPosition = (keys: SortKey[], position: Record<string, unknown>): Prisma.UserWhereInput => ({
+	OR: keys.map((key, index) => ({
+		...Object.fromEntries(keys.slice(0, index).map(({ field }) => [field, position[field]])),
+		[key.field]: { [key.direction === 'asc' ? 'gt' : 'lt']: position[key.field] },
+	})),
+});
+
+// A cursor holds the sort order and the sort values of the last user on the page
+const toCursor = (sort: string, keys: SortKey[], user: User): string =>
+	encodeCursor({
+		sort,
+		...Object.fromEntries(
+			keys.map(({ field }) => [field, user[field] instanceof Date ? user[field].toISOString() : user[field]])
+		),
+	});
+
+const fromCursor = (cursor: string, sort: string, keys: SortKey[]): Record<string, unknown> => {
+	const position = decodeCursor(cursor);
+
+	// A cursor from a different sort order would resume from the wrong place
+	if (!position || position.sort !== sort) {
+		throw new AppError('Invalid cursor', 400);
+	}
+
+	const values: Record<string, unknown> = {};
+
+	for (const { field } of keys) {
+		const value = position[field];
+
+		if (field === 'id' ? typeof value !== 'number' : typeof value !== 'string') {
+			throw new AppError('Invalid cursor', 400);
+		}
+
+		if (field === 'createdAt' || field === 'updatedAt') {
+			const date = new Date(value as string);
+
+			if (isNaN(date.getTime())) {
+				throw new AppError('Invalid cursor', 400);
+			}
+
+			values[field] = date;
+		} else {
+			values[field] = value;
+		}
+	}
+
+	return values;
+};
+
+// Names weigh more than emails when ranking search results
+const SEARCH_WEIGHTS = { name: 2.0, email: 1.0 };
+
+interface SearchRow {
+	id: number | bigint;
+	score: number;
+	nameSnippet: string;
+	emailSnippet: string;
+}
+
+// Every word of the query has to match the start of a word in the name or email. Only letters
+// and digits are kept, so nothing the user types is read as FTS5 query syntax.
+const toMatchExpression = (query: string): string | null => {
+	const words = query.match(/[\p{L}\p{N}]+/gu);
+	return words ? words.map((word) => `"${word}"*`).join(' ') : null;
+};
+
+// FTS5 marks matches with control characters, which can't appear in the escaped text
+const snippetToHtml = (snippet: string): string =>
+	snippet
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
+		.replace(/\u0002/g, '<mark>')
+		.replace(/\u0003/g, '</mark>');
 
 export class UserService {
 	// Get all users from database
 	async getAllUsers(): Promise<User[]> {
 		return await prisma.user.findMany({
+			where: { deletedAt: null },
 			orderBy: {
 				createdAt: 'desc', // Most recent first
 			},
 		});
 	}
 
+	// Get one page of matching users by page number
+	async getUsersPage(page: number, pageSize: number, query: UserListQuery = {}): Promise<PaginatedResult<User>> {
+		const where = toWhere(query);
+
+		const [users, total] = await prisma.$transaction([
+			prisma.user.findMany({
+				where,
+				orderBy: toOrderBy(parseSort(query.sort || DEFAULT_SORT)),
+				skip: (page - 1) * pageSize,
+				take: pageSize,
+			}),
+			prisma.user.count({ where }),
+		]);
+
+		return {
+			items: users,
+			meta: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+		};
+	}
+
+	// Get the matching users after a cursor. Unlike page numbers, cursors don't skip or
+	// repeat users when others are created or deleted between requests.
+	async getUsersAfter(
+		limit: number,
+		cursor?: string,
+		query: UserListQuery = {}
+	): Promise<PaginatedResult<User, CursorPaginationMeta>> {
+		const sort = query.sort || DEFAULT_SORT;
+		const keys = parseSort(sort);
+		const where = toWhere(query);
+
+		// One extra row tells us whether there is a next page
+		const [users, total] = await prisma.$transaction([
+			prisma.user.findMany({
+				where: cursor ? { AND: [where, afterPosition(keys, fromCursor(cursor, sort, keys))] } : where,
+				orderBy: toOrderBy(keys),
+				take: limit + 1,
+			}),
+			prisma.user.count({ where }),
+		]);
+
+		const items = users.slice(0, limit);
+
+		return {
+			items,
+			meta: {
+				limit,
+				total,
+				nextCursor: users.length > limit ? toCursor(sort, keys, items[items.length - 1]) : null,
+			},
+		};
+	}
+
+	// Full-text search over names and emails, most relevant first
+	async searchUsers(query: string, page: number, pageSize: number): Promise<PaginatedResult<UserSearchResult>> {
+		const match = toMatchExpression(query);
+
+		if (!match) {
+			return { items: [], meta: { page, pageSize, total: 0, totalPages: 0 } };
+		}
+
+		const [rows, [{ total }]] = await prisma.$transaction([
+			prisma.$queryRaw<SearchRow[]>`
+				SELECT
+					rowid AS id,
+					-bm25(users_fts, ${SEARCH_WEIGHTS.name}, ${SEARCH_WEIGHTS.email}) AS score,
+					snippet(users_fts, 0, char(2), char(3), '…', 16) AS nameSnippet,
+					snippet(users_fts, 1, char(2), char(3), '…', 16) AS emailSnippet
+				FROM users_fts
+				JOIN users ON users.id = users_fts.rowid
+				WHERE users_fts MATCH ${match} AND users.deletedAt IS NULL
+				ORDER BY score DESC, rowid DESC
+				LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+			`,
+			prisma.$queryRaw<{ total: number | bigint }[]>`
+				SELECT COUNT(*) AS total
+				FROM users_fts
+				JOIN users ON users.id = users_fts.rowid
+				WHERE users_fts MATCH ${match} AND users.deletedAt IS NULL
+			`,
+		]);
+
+		const users = await prisma.user.findMany({
+			where: { id: { in: rows.map((row) => Number(row.id)) } },
+		});
+		const usersById = new Map(users.map((user) => [user.id, user]));
+
+		return {
+			// A user deleted since the search ran is left out
+			items: rows.filter((row) => usersById.has(Number(row.id))).map((row) => ({
+				user: usersById.get(Number(row.id))!,
+				score: row.score,
+				snippets: { name: snippetToHtml(row.nameSnippet), email: snippetToHtml(row.emailSnippet) },
+			})),
+			meta: { page, pageSize, total: Number(total), totalPages: Math.ceil(Number(total) / pageSize) },
+		};
+	}
+
 	// Get user by ID
 	async getUserById(id: number): Promise<User | null> {
 		return await prisma.user.findUnique({
-			where: { id },
+			where: { id, deletedAt: null },
 		});
 	}
 
@@ -33,25 +249,113 @@ export class UserService {
 			return null;
 		}
 
-		return await prisma.user.update({
+		// A new address has to be verified again before it counts
+		const emailChanged = updates.email !== undefined && updates.email !== existingUser.email;
+
+		const updatedUser = await prisma.user.update({
 			where: { id },
-			data: updates,
+			data: { ...updates, ...(emailChanged && { emailVerified: false, emailVerifiedAt: null }) },
 		});
+
+		if (emailChanged) {
+			await authService.sendVerificationEmail(updatedUser);
+		}
+
+		return updatedUser;
 	}
 
-	// Delete user
+	// Delete user. The row is kept so the user can be restored until the purge; meanwhile the
+	// email address is swapped for a placeholder so a new account can use it.
 	async deleteUser(id: number): Promise<User | null> {
-		// First check if user exists
-		const existingUser = await this.getUserById(id);
-		if (!existingUser) {
+		const deletedUser = await prisma.$transaction(async (tx) => {
+			const existingUser = await tx.user.findUnique({ where: { id, deletedAt: null } });
+			if (!existingUser) {
+				return null;
+			}
+
+			if (existingUser.role === 'ADMIN' && existingUser.isActive) {
+				await assertAnotherActiveAdmin(tx, id);
+			}
+
+			return tx.user.update({
+				where: { id },
+				data: {
+					deletedAt: new Date(),
+					deletedEmail: existingUser.email,
+					email: `deleted-${id}@deleted.invalid`, // .invalid is reserved, so this never reaches anyone
+				},
+			});
+		});
+
+		if (!deletedUser) {
 			return null;
 		}
 
-		return await prisma.user.delete({
+		await authService.revokeAllUserTokens(id);
+		return deletedUser;
+	}
+
+	// Get one page of deleted users, most recently deleted first
+	async getDeletedUsers(page: number, pageSize: number): Promise<PaginatedResult<User>> {
+		const where: Prisma.UserWhereInput = { deletedAt: { not: null } };
+
+		const [users, total] = await prisma.$transaction([
+			prisma.user.findMany({
+				where,
+				orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+				skip: (page - 1) * pageSize,
+				take: pageSize,
+			}),
+			prisma.user.count({ where }),
+		]);
+
+		return {
+			items: users,
+			meta: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+		};
+	}
+
+	// Undo deleteUser. Returns null if the user doesn't exist or isn't deleted. Sessions
+	// ended by the deletion stay ended.
+	async restoreUser(id: number): Promise<User | null> {
+		const deletedUser = await prisma.user.findUnique({
+			where: { id, deletedAt: { not: null } },
+		});
+
+		if (!deletedUser || !deletedUser.deletedEmail) {
+			return null;
+		}
+
+		if (await this.emailExists(deletedUser.deletedEmail)) {
+			throw new AppError('Another user now has this email address', 409);
+		}
+
+		return await prisma.user.update({
 			where: { id },
+			data: { email: deletedUser.deletedEmail, deletedEmail: null, deletedAt: null },
 		});
 	}
 
+	// Hard-delete users deleted longer ago than the retention period. Their revoked tokens go
+	// too; everything else that belongs to them is removed by the database.
+	async purgeDeletedUsers(): Promise<number> {
+		const cutoff = new Date(Date.now() - CONFIG.DELETED_USER_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+		const due = await prisma.user.findMany({
+			where: { deletedAt: { lt: cutoff } },
+			select: { id: true },
+		});
+
+		for (const { id } of due) {
+			await prisma.$transaction([
+				prisma.revokedToken.deleteMany({ where: { userId: id } }),
+				prisma.user.delete({ where: { id } }),
+			]);
+		}
+
+		return due.length;
+	}
+
 	// Check if email exists (for validation)
 	async emailExists(email: string, excludeUserId?: number): Promise<boolean> {
 		const user = await prisma.user.findUnique({
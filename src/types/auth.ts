@@ -1,9 +1,12 @@
-import { UserRole } from '@prisma/client';
+import { ImpersonationAuditLog, UserRole } from '@prisma/client';
 
 export interface JwtPayload {
   userId: number;
   email: string;
   role: UserRole;
+  sid?: string;
+  act?: ImpersonationActor; // Present on impersonation tokens: who is really acting
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -14,10 +17,126 @@ export interface AuthenticatedUser {
   email: string;
   role: UserRole;
   isActive: boolean;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Permission keys the code checks. Which roles hold them lives in the role_permissions table.
+export const PERMISSIONS = [
+  'user.read',
+  'user.read.admin',
+  'user.create',
+  'user.update',
+  'user.delete',
+  'user.restore',
+  'user.unlock',
+  'user.role.update',
+  'user.deactivate',
+  'user.impersonate',
+  'user.invite',
+  'user.session.read',
+  'user.session.revoke',
+  'user.security-event.read',
+] as const;
+
+export type PermissionKey = (typeof PERMISSIONS)[number];
+
+export interface ImpersonationActor {
+  userId: number;
+  email: string;
+}
+
+// Lets clients show an "acting as" banner while impersonating
+export interface ImpersonationInfo {
+  actor: Pick<AuthenticatedUser, 'id' | 'name' | 'email'>;
+  expiresAt: Date;
+}
+
+// The user attached to an authenticated request, with the permissions currently in effect
+export interface RequestUser extends AuthenticatedUser {
+  permissions: PermissionKey[];
+  impersonation?: ImpersonationInfo;
+}
+
+export interface ImpersonationResponse {
+  impersonationId: string; // Correlates the audit log entries
+  token: string;
+  expiresIn: string;
+  user: AuthenticatedUser;
+  impersonation: ImpersonationInfo;
+}
+
+// Where a request came from, recorded on the session it creates and in the security log
+export interface ClientContext {
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+// What gets recorded in each user's security log
+export const SECURITY_EVENT_TYPES = [
+  'login.succeeded',
+  'login.failed',
+  'token.refreshed',
+  'password.changed',
+  'role.changed',
+] as const;
+
+export type SecurityEventType = (typeof SECURITY_EVENT_TYPES)[number];
+
+export interface SecurityEventInfo {
+  id: number;
+  type: SecurityEventType;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current?: boolean;
+}
+
+// Permissions an API key can be granted. A key never exceeds its owner's role.
+export const API_KEY_SCOPES = ['users:read', 'users:write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Attached to requests authenticated with an API key instead of a JWT
+export interface ApiKeyContext {
+  id: number;
+  scopes: ApiKeyScope[];
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number;
+}
+
+export interface ApiKeyInfo {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// Returned once on creation; the plain key can't be retrieved again
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string;
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -29,8 +148,91 @@ export interface RegisterRequest {
   password: string;
 }
 
-export interface AuthResponse {
-  user: Omit<AuthenticatedUser, 'password'>;
+export interface TokenPair {
   token: string;
+  refreshToken: string;
   expiresIn: string;
 }
+
+export interface AuthResponse extends TokenPair {
+  user: Omit<AuthenticatedUser, 'password'>;
+}
+
+// Returned by register when the account must verify its email before logging in
+export interface PendingVerificationResponse {
+  user: Omit<AuthenticatedUser, 'password'>;
+  emailVerificationRequired: true;
+}
+
+export interface EmailVerificationPayload {
+  userId: number;
+  email: string;
+}
+
+export interface InvitationPayload {
+  invitationId: number;
+  version: number; // Must match the invitation's tokenVersion, so resent links replace earlier ones
+}
+
+export type InvitationStatus = 'pending' | 'expired' | 'accepted';
+
+export interface InvitationInfo {
+  id: number;
+  status: InvitationStatus;
+  user: Pick<AuthenticatedUser, 'id' | 'name' | 'email'>;
+  invitedBy: Pick<AuthenticatedUser, 'id' | 'name' | 'email'> | null;
+  sentAt: Date;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+}
+
+// Returned by login when a second factor is required before tokens are issued
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+export interface TwoFactorChallengePayload {
+  userId: number;
+  jti: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+// Everything stored about a user, returned by GET /auth/me/export.
+// Password hashes, secrets and token hashes are never included.
+export interface AccountExport {
+  exportedAt: Date;
+  profile: AuthenticatedUser & {
+    emailVerifiedAt: Date | null;
+    deletionScheduledAt: Date | null;
+  };
+  sessions: (SessionInfo & { revokedAt: Date | null })[];
+  apiKeys: (ApiKeyInfo & { revokedAt: Date | null })[];
+  twoFactor: {
+    enabled: boolean;
+    recoveryCodesRemaining: number;
+  };
+  invitation: Pick<InvitationInfo, 'sentAt' | 'expiresAt' | 'acceptedAt'> | null;
+  // Requests support staff made while acting as the user, and those the user made while acting as others
+  impersonationAuditLog: Omit<ImpersonationAuditLog, 'id'>[];
+  securityEvents: SecurityEventInfo[];
+}
+
+export interface AccountDeletionInfo {
+  deletionScheduledAt: Date;
+}
+
+// Returned instead when the account has no password and the deletion has to be confirmed by email
+export interface AccountDeletionConfirmationResponse {
+  confirmationRequired: true;
+  expiresIn: string;
+}
+
+export interface AccountDeletionConfirmationPayload {
+  userId: number;
+}
@@ -1,15 +1,88 @@
+import { User, UserRole } from '@prisma/client';
+
 // Custom types for the application
 
 export interface ApiResponse<T = any> {
 	success: boolean;
 	message: string;
 	data?: T;
+	meta?: PaginationMeta;
 	timestamp: string;
 }
 
+// Sent with paginated lists
+export type PaginationMeta = OffsetPaginationMeta | CursorPaginationMeta;
+
+export interface OffsetPaginationMeta {
+	page: number;
+	pageSize: number;
+	total: number;
+	totalPages: number;
+}
+
+export interface CursorPaginationMeta {
+	limit: number;
+	total: number;
+	// Null on the last page
+	nextCursor: string | null;
+}
+
+export interface PaginatedResult<T, M extends PaginationMeta = OffsetPaginationMeta> {
+	items: T[];
+	meta: M;
+}
+
+// How a user appears in /users responses and the web pages. Admins also see the account's
+// role and status; everyone else sees only the public profile.
+export interface PublicUserView {
+	id: number;
+	name: string;
+	email: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface AdminUserView extends PublicUserView {
+	role: UserRole;
+	isActive: boolean;
+	emailVerified: boolean;
+	twoFactorEnabled: boolean;
+	deletedAt?: Date; // Only on deleted users
+}
+
+export type UserView = PublicUserView | AdminUserView;
+
+// Fields GET /users can be sorted by. Prefix one with - in the sort parameter for descending order.
+export const USER_SORT_FIELDS = ['name', 'email', 'createdAt', 'updatedAt'] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+// Filters and sort order for GET /users. Date ranges include the start and exclude the end.
+export interface UserListQuery {
+	role?: UserRole;
+	isActive?: boolean;
+	createdFrom?: Date;
+	createdBefore?: Date;
+	updatedFrom?: Date;
+	updatedBefore?: Date;
+	search?: string; // Part of the name or email
+	sort?: string;
+}
+
+// A GET /users/search hit. Snippets are HTML: matches are wrapped in <mark> and the rest is escaped.
+export interface UserSearchResult {
+	user: User;
+	score: number; // Higher is more relevant
+	snippets: {
+		name: string;
+		email: string;
+	};
+}
+
 export interface ErrorResponse {
 	success: false;
 	message: string;
+	errors?: unknown[];
 	error?: string;
 	stack?: string;
 	timestamp: string;
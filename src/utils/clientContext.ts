@@ -0,0 +1,9 @@
+import { Request } from 'express';
+import { ClientContext } from '../types/auth';
+
+// Extract the device details recorded on sessions and security events
+export const getClientContext = (req: Request): ClientContext => ({
+	userAgent: req.get('User-Agent'),
+	ipAddress: req.ip,
+	requestId: req.get('X-Request-Id'), // Set by the logging middleware
+});
@@ -0,0 +1,26 @@
+import { CookieOptions, Request } from 'express';
+import { isProduction } from '../config';
+
+// Cookies only exist for the web UI; the API authenticates with headers
+export const webCookieOptions: CookieOptions = {
+	httpOnly: true,
+	sameSite: 'lax',
+	secure: isProduction,
+	path: '/web',
+};
+
+// Read a single cookie from the Cookie header
+export const getCookie = (req: Request, name: string): string | undefined => {
+	for (const pair of (req.headers.cookie || '').split(';')) {
+		const separator = pair.indexOf('=');
+		if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+			try {
+				return decodeURIComponent(pair.slice(separator + 1).trim());
+			} catch (error) {
+				return undefined;
+			}
+		}
+	}
+
+	return undefined;
+};
@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { PaginationMeta } from '../types';
+
+// Cursors are opaque to clients, so what they encode can change without breaking anyone
+export const encodeCursor = (position: Record<string, string | number>): string =>
+	Buffer.from(JSON.stringify(position)).toString('base64url');
+
+// Returns null for anything that wasn't produced by encodeCursor
+export const decodeCursor = (cursor: string): Record<string, unknown> | null => {
+	try {
+		const position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+		return position && typeof position === 'object' && !Array.isArray(position) ? position : null;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Set an RFC 8288 Link header with the first, previous, next and last pages.
+// The other query parameters of the request are carried over.
+export const setPaginationLinks = (req: Request, res: Response, meta: PaginationMeta): void => {
+	const url = `${req.protocol}://${req.get('host')}${req.originalUrl.split('?')[0]}`;
+
+	const link = (rel: string, params: Record<string, string | number | undefined>): string => {
+		const query = new URLSearchParams();
+
+		for (const [key, value] of Object.entries(req.query)) {
+			for (const item of Array.isArray(value) ? value : [value]) {
+				if (typeof item === 'string') {
+					query.append(key, item);
+				}
+			}
+		}
+
+		for (const [key, value] of Object.entries(params)) {
+			if (value === undefined) {
+				query.delete(key);
+			} else {
+				query.set(key, String(value));
+			}
+		}
+
+		return `<${url}?${query}>; rel="${rel}"`;
+	};
+
+	const links: string[] = [];
+
+	if ('nextCursor' in meta) {
+		links.push(link('first', { cursor: undefined, limit: meta.limit }));
+
+		if (meta.nextCursor) {
+			links.push(link('next', { cursor: meta.nextCursor, limit: meta.limit }));
+		}
+	} else {
+		const lastPage = Math.max(meta.totalPages, 1);
+
+		links.push(link('first', { page: 1, pageSize: meta.pageSize }));
+
+		if (meta.page > 1) {
+			links.push(link('prev', { page: Math.min(meta.page - 1, lastPage), pageSize: meta.pageSize }));
+		}
+
+		if (meta.page < lastPage) {
+			links.push(link('next', { page: meta.page + 1, pageSize: meta.pageSize }));
+		}
+
+		links.push(link('last', { page: lastPage, pageSize: meta.pageSize }));
+	}
+
+	res.setHeader('Link', links.join(', '));
+};
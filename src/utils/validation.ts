@@ -1,6 +1,9 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from '../middleware/errorHandler';
+import { CONFIG } from '../config';
+import { API_KEY_SCOPES } from '../types/auth';
+import { USER_SORT_FIELDS } from '../types';
 
 // Authentication validation schemas
 export const authSchemas = {
@@ -14,12 +17,8 @@ export const authSchemas = {
 			'string.email': 'Please provide a valid email address',
 			'any.required': 'Email is required',
 		}),
-		password: Joi.string().min(8).max(128).pattern(
-			new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)')
-		).required().messages({
-			'string.min': 'Password must be at least 8 characters long',
-			'string.max': 'Password cannot exceed 128 characters',
-			'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, and one number',
+		// Strength is checked against the password policy once the name and email are known
+		password: Joi.string().required().messages({
 			'any.required': 'Password is required',
 		}),
 	}),
@@ -34,19 +33,191 @@ export const authSchemas = {
 		}),
 	}),
 
+	refreshToken: Joi.object({
+		refreshToken: Joi.string().required().messages({
+			'any.required': 'Refresh token is required',
+		}),
+	}),
+
 	changePassword: Joi.object({
 		currentPassword: Joi.string().required().messages({
 			'any.required': 'Current password is required',
 		}),
-		newPassword: Joi.string().min(8).max(128).pattern(
-			new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)')
-		).required().messages({
-			'string.min': 'New password must be at least 8 characters long',
-			'string.max': 'New password cannot exceed 128 characters',
-			'string.pattern.base': 'New password must contain at least one lowercase letter, one uppercase letter, and one number',
+		newPassword: Joi.string().required().messages({
 			'any.required': 'New password is required',
 		}),
 	}),
+
+	// Accounts without a password leave it out and confirm by email instead
+	deleteAccount: Joi.object({
+		password: Joi.string(),
+	}),
+
+	confirmDeletion: Joi.object({
+		token: Joi.string().required().messages({
+			'any.required': 'Token is required',
+		}),
+	}),
+
+	forgotPassword: Joi.object({
+		email: Joi.string().email().required().messages({
+			'string.email': 'Please provide a valid email address',
+			'any.required': 'Email is required',
+		}),
+	}),
+
+	acceptInvitation: Joi.object({
+		token: Joi.string().required().messages({
+			'any.required': 'Invitation token is required',
+		}),
+		// Strength is checked against the password policy once the invitee is known
+		password: Joi.string().required().messages({
+			'any.required': 'Password is required',
+		}),
+	}),
+
+	requestMagicLink: Joi.object({
+		email: Joi.string().email().required().messages({
+			'string.email': 'Please provide a valid email address',
+			'any.required': 'Email is required',
+		}),
+	}),
+
+	magicLinkLogin: Joi.object({
+		token: Joi.string().required().messages({
+			'any.required': 'Sign-in token is required',
+		}),
+	}),
+
+	resetPassword: Joi.object({
+		token: Joi.string().required().messages({
+			'any.required': 'Reset token is required',
+		}),
+		newPassword: Joi.string().required().messages({
+			'any.required': 'New password is required',
+		}),
+	}),
+
+	verifyEmail: Joi.object({
+		token: Joi.string().required().messages({
+			'any.required': 'Verification token is required',
+		}),
+	}),
+
+	resendVerification: Joi.object({
+		email: Joi.string().email().required().messages({
+			'string.email': 'Please provide a valid email address',
+			'any.required': 'Email is required',
+		}),
+	}),
+};
+
+// Two-factor authentication validation schemas
+export const twoFactorSchemas = {
+	enable: Joi.object({
+		code: Joi.string().pattern(/^\d{6}$/).required().messages({
+			'string.pattern.base': 'Authentication code must be 6 digits',
+			'any.required': 'Authentication code is required',
+		}),
+	}),
+
+	// Accepts an authenticator code or a recovery code
+	disable: Joi.object({
+		password: Joi.string().required().messages({
+			'any.required': 'Password is required',
+		}),
+		code: Joi.string().max(32).required().messages({
+			'any.required': 'Authentication code is required',
+		}),
+	}),
+
+	verify: Joi.object({
+		challengeToken: Joi.string().required().messages({
+			'any.required': 'Challenge token is required',
+		}),
+		code: Joi.string().max(32).required().messages({
+			'any.required': 'Authentication code is required',
+		}),
+	}),
+};
+
+// Session management validation schemas
+export const sessionSchemas = {
+	sessionId: Joi.object({
+		id: Joi.string().guid().required().messages({
+			'string.guid': 'Session ID must be a valid UUID',
+			'any.required': 'Session ID is required',
+		}),
+	}),
+};
+
+// API key validation schemas
+export const apiKeySchemas = {
+	create: Joi.object({
+		name: Joi.string().trim().min(1).max(100).required().messages({
+			'string.empty': 'Name is required',
+			'string.max': 'Name cannot exceed 100 characters',
+			'any.required': 'Name is required',
+		}),
+		scopes: Joi.array()
+			.items(Joi.string().valid(...API_KEY_SCOPES))
+			.min(1)
+			.required()
+			.messages({
+				'any.only': `Scopes must be one of: ${API_KEY_SCOPES.join(', ')}`,
+				'array.min': 'At least one scope is required',
+				'any.required': 'Scopes are required',
+			}),
+		expiresInDays: Joi.number().integer().min(1).max(CONFIG.API_KEY_MAX_EXPIRES_IN_DAYS).optional().messages({
+			'number.min': 'Expiry must be at least 1 day',
+			'number.max': `Expiry cannot exceed ${CONFIG.API_KEY_MAX_EXPIRES_IN_DAYS} days`,
+		}),
+	}),
+
+	params: Joi.object({
+		id: Joi.number().integer().positive().required().messages({
+			'number.base': 'API key ID must be a number',
+			'any.required': 'API key ID is required',
+		}),
+	}),
+};
+
+// Pagination validation schemas
+const page = Joi.number().integer().min(1).messages({
+	'number.base': 'Page must be a number',
+	'number.min': 'Page must be at least 1',
+});
+
+const pageSize = Joi.number().integer().min(1).max(100).messages({
+	'number.base': 'Page size must be a number',
+	'number.min': 'Page size must be at least 1',
+	'number.max': 'Page size cannot exceed 100',
+});
+
+export const paginationSchemas = {
+	query: Joi.object({
+		page: page.default(1),
+		pageSize: pageSize.default(20),
+	}),
+
+	// No defaults here: which ones apply depends on whether the client pages by cursor or by number
+	cursorOrPage: Joi.object({
+		limit: Joi.number().integer().min(1).max(100).messages({
+			'number.base': 'Limit must be a number',
+			'number.min': 'Limit must be at least 1',
+			'number.max': 'Limit cannot exceed 100',
+		}),
+		cursor: Joi.string().max(200).messages({
+			'string.max': 'Invalid cursor',
+		}),
+		page,
+		pageSize,
+	})
+		.without('cursor', ['page', 'pageSize'])
+		.without('limit', ['page', 'pageSize'])
+		.messages({
+			'object.without': 'Use either limit and cursor or page and pageSize, not both',
+		}),
 };
 
 // User validation schemas
@@ -85,6 +256,93 @@ export const userSchemas = {
 			'any.required': 'User ID is required',
 		}),
 	}),
+
+	updateRole: Joi.object({
+		role: Joi.string().valid('USER', 'MODERATOR', 'ADMIN').required().messages({
+			'any.only': 'Role must be one of: USER, MODERATOR, ADMIN',
+			'any.required': 'Role is required',
+		}),
+	}),
+
+	// Pagination, filters and sort order for GET /users
+	list: paginationSchemas.cursorOrPage.keys({
+		role: Joi.string().valid('USER', 'MODERATOR', 'ADMIN').messages({
+			'any.only': 'Role must be one of: USER, MODERATOR, ADMIN',
+		}),
+		isActive: Joi.boolean().messages({
+			'boolean.base': 'isActive must be true or false',
+		}),
+		createdFrom: Joi.date().iso().messages({
+			'date.format': 'createdFrom must be an ISO 8601 date',
+		}),
+		createdBefore: Joi.date()
+			.iso()
+			.when('createdFrom', { is: Joi.exist(), then: Joi.date().greater(Joi.ref('createdFrom')) })
+			.messages({
+				'date.format': 'createdBefore must be an ISO 8601 date',
+				'date.greater': 'createdBefore must be after createdFrom',
+			}),
+		updatedFrom: Joi.date().iso().messages({
+			'date.format': 'updatedFrom must be an ISO 8601 date',
+		}),
+		updatedBefore: Joi.date()
+			.iso()
+			.when('updatedFrom', { is: Joi.exist(), then: Joi.date().greater(Joi.ref('updatedFrom')) })
+			.messages({
+				'date.format': 'updatedBefore must be an ISO 8601 date',
+				'date.greater': 'updatedBefore must be after updatedFrom',
+			}),
+		search: Joi.string().trim().min(1).max(100).messages({
+			'string.empty': 'Search cannot be empty',
+			'string.max': 'Search cannot exceed 100 characters',
+		}),
+		sort: Joi.string()
+			.pattern(new RegExp(`^-?(${USER_SORT_FIELDS.join('|')})(,-?(${USER_SORT_FIELDS.join('|')}))*$`))
+			.custom((value: string, helpers) => {
+				const fields = value.split(',').map((field) => field.replace(/^-/, ''));
+				return new Set(fields).size === fields.length ? value : helpers.error('any.invalid');
+			})
+			.messages({
+				'string.pattern.base': `Sort must be a comma-separated list of: ${USER_SORT_FIELDS.join(', ')}, each optionally prefixed with -`,
+				'any.invalid': 'Sort cannot list a field twice',
+			}),
+	}),
+
+	search: paginationSchemas.query.keys({
+		q: Joi.string().trim().min(1).max(100).required().messages({
+			'string.empty': 'Search query cannot be empty',
+			'string.max': 'Search query cannot exceed 100 characters',
+			'any.required': 'Search query is required',
+		}),
+	}),
+
+	invitationQuery: Joi.object({
+		status: Joi.string().valid('pending', 'expired', 'accepted').optional().messages({
+			'any.only': 'Status must be one of: pending, expired, accepted',
+		}),
+	}),
+
+	invitationParams: Joi.object({
+		invitationId: Joi.number().integer().positive().required().messages({
+			'number.base': 'Invitation ID must be a number',
+			'number.integer': 'Invitation ID must be an integer',
+			'number.positive': 'Invitation ID must be positive',
+			'any.required': 'Invitation ID is required',
+		}),
+	}),
+
+	sessionParams: Joi.object({
+		id: Joi.number().integer().positive().required().messages({
+			'number.base': 'User ID must be a number',
+			'number.integer': 'User ID must be an integer',
+			'number.positive': 'User ID must be positive',
+			'any.required': 'User ID is required',
+		}),
+		sessionId: Joi.string().guid().required().messages({
+			'string.guid': 'Session ID must be a valid UUID',
+			'any.required': 'Session ID is required',
+		}),
+	}),
 };
 
 // Validation middleware factory
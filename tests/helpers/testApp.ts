@@ -2,10 +2,15 @@ import express from 'express';
 import { setupSecurity } from '../../src/middleware/security';
 import { errorHandler, notFoundHandler } from '../../src/middleware/errorHandler';
 import { apiRoutes } from '../../src/routes';
+import { wellKnownRoutes } from '../../src/routes/wellKnown';
+import { webRoutes } from '../../src/routes/web';
 
 export function createTestApp() {
 	const app = express();
 
+	app.set('view engine', 'ejs');
+	app.set('views', './views');
+
 	// Set up middleware (same as main app but without logging to avoid noise in tests)
 	setupSecurity(app);
 
@@ -15,6 +20,8 @@ export function createTestApp() {
 
 	// Mount API routes
 	app.use('/api/v1', apiRoutes);
+	app.use('/.well-known', wellKnownRoutes);
+	app.use('/web', webRoutes);
 
 	// Error handlers
 	app.use(notFoundHandler);
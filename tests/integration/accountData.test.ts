@@ -0,0 +1,126 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+import { mailer, MemoryTransport } from '../../src/lib/mailer';
+import { accountService } from '../../src/services/accountService';
+
+const app = createTestApp();
+const mailTransport = new MemoryTransport();
+mailer.setTransport(mailTransport);
+
+describe('Account Data Endpoints', () => {
+  const testUser = {
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    password: 'SecurePass123'
+  };
+
+  let userId: number;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/v1/auth/register')
+      .send(testUser)
+      .expect(201);
+
+    userId = response.body.data.user.id;
+    accessToken = response.body.data.token;
+    mailTransport.clear();
+  });
+
+  it('should export the user\'s data as a download', async () => {
+    const response = await request(app)
+      .get('/api/v1/auth/me/export')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    expect(response.headers['content-disposition']).toContain(`account-${userId}-export.json`);
+    expect(response.body.data.profile).toMatchObject({ id: userId, email: testUser.email });
+    expect(response.body.data.profile).not.toHaveProperty('password');
+    expect(response.body.data.sessions).toHaveLength(1);
+    expect(response.body.data.twoFactor).toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+  });
+
+  it('should schedule deletion after confirming the password, until cancelled', async () => {
+    await request(app)
+      .delete('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({})
+      .expect(400);
+
+    await request(app)
+      .delete('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ password: 'WrongPass123' })
+      .expect(401);
+
+    const response = await request(app)
+      .delete('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ password: testUser.password })
+      .expect(202);
+
+    expect(new Date(response.body.data.deletionScheduledAt).getTime()).toBeGreaterThan(Date.now());
+    expect(mailTransport.outbox).toHaveLength(1);
+
+    // Every session is signed out
+    await request(app)
+      .get('/api/v1/auth/profile')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(401);
+
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password: testUser.password })
+      .expect(200);
+
+    await request(app)
+      .post('/api/v1/auth/me/cancel-deletion')
+      .set('Authorization', `Bearer ${login.body.data.token}`)
+      .expect(200);
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    expect(user!.deletionScheduledAt).toBeNull();
+  });
+
+  it('should let accounts without a password confirm deletion by email', async () => {
+    await prisma.user.update({ where: { id: userId }, data: { password: null } });
+
+    const response = await request(app)
+      .delete('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({})
+      .expect(202);
+
+    expect(response.body.data).toMatchObject({ confirmationRequired: true });
+    expect((await prisma.user.findUniqueOrThrow({ where: { id: userId } })).deletionScheduledAt).toBeNull();
+
+    expect(mailTransport.outbox).toHaveLength(1);
+    const token = decodeURIComponent(mailTransport.outbox[0].text.match(/token=([^\s]+)/)![1]);
+
+    const confirmed = await request(app)
+      .post('/api/v1/auth/confirm-deletion')
+      .send({ token })
+      .expect(202);
+
+    expect(new Date(confirmed.body.data.deletionScheduledAt).getTime()).toBeGreaterThan(Date.now());
+
+    await request(app)
+      .post('/api/v1/auth/confirm-deletion')
+      .send({ token })
+      .expect(409);
+  });
+
+  it('should erase accounts once the grace period has passed', async () => {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { deletionScheduledAt: new Date(Date.now() - 1000) }
+    });
+
+    expect(await accountService.eraseDueAccounts()).toBe(1);
+
+    expect(await prisma.user.findUnique({ where: { id: userId } })).toBeNull();
+    expect(await prisma.session.count({ where: { userId } })).toBe(0);
+  });
+});
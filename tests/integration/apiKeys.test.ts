@@ -0,0 +1,122 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+
+const app = createTestApp();
+
+describe('API Key Endpoints', () => {
+  const testUser = {
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    password: 'SecurePass123'
+  };
+
+  let token: string;
+  let userId: number;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/v1/auth/register')
+      .send(testUser)
+      .expect(201);
+
+    token = response.body.data.token;
+    userId = response.body.data.user.id;
+  });
+
+  const createKey = async (scopes: string[]) => {
+    const response = await request(app)
+      .post('/api/v1/auth/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Reporting integration', scopes })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  it('should show the key once and only list its prefix afterwards', async () => {
+    const created = await createKey(['users:read']);
+
+    expect(created).toMatchObject({
+      id: expect.any(Number),
+      key: expect.stringMatching(/^uak_/),
+      scopes: ['users:read'],
+      lastUsedAt: null,
+    });
+    expect(created.key.startsWith(created.prefix)).toBe(true);
+
+    const listed = await request(app)
+      .get('/api/v1/auth/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(listed.body.data).toHaveLength(1);
+    expect(listed.body.data[0].key).toBeUndefined();
+  });
+
+  it('should authenticate with either header and record last use', async () => {
+    const { key } = await createKey(['users:read']);
+
+    await request(app)
+      .get(`/api/v1/users/${userId}`)
+      .set('X-API-Key', key)
+      .expect(200);
+
+    await request(app)
+      .get(`/api/v1/users/${userId}`)
+      .set('Authorization', `ApiKey ${key}`)
+      .expect(200);
+
+    const listed = await request(app)
+      .get('/api/v1/auth/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(listed.body.data[0].lastUsedAt).toEqual(expect.any(String));
+  });
+
+  it('should enforce scopes', async () => {
+    const { key } = await createKey(['users:read']);
+
+    const response = await request(app)
+      .put(`/api/v1/users/${userId}`)
+      .set('X-API-Key', key)
+      .send({ name: 'Renamed' })
+      .expect(403);
+
+    expect(response.body.message).toBe('API key is missing required scope: users:write');
+  });
+
+  it('should not allow API keys to manage the account', async () => {
+    const { key } = await createKey(['users:read', 'users:write']);
+
+    await request(app)
+      .post('/api/v1/auth/api-keys')
+      .set('X-API-Key', key)
+      .send({ name: 'Escalation', scopes: ['users:write'] })
+      .expect(403);
+  });
+
+  it('should reject a revoked key', async () => {
+    const { id, key } = await createKey(['users:read']);
+
+    await request(app)
+      .delete(`/api/v1/auth/api-keys/${id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const response = await request(app)
+      .get(`/api/v1/users/${userId}`)
+      .set('X-API-Key', key)
+      .expect(401);
+
+    expect(response.body.message).toBe('Invalid API key');
+  });
+
+  it('should reject unknown scopes', async () => {
+    await request(app)
+      .post('/api/v1/auth/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Bad', scopes: ['users:admin'] })
+      .expect(400);
+  });
+});
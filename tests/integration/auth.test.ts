@@ -0,0 +1,430 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+import { mailer, MemoryTransport } from '../../src/lib/mailer';
+import { KeyStore, signingKeys } from '../../src/lib/signingKeys';
+
+const app = createTestApp();
+const mailTransport = new MemoryTransport();
+mailer.setTransport(mailTransport);
+
+// Pull the token query parameter out of the most recent email's link
+const tokenFromLastMail = (): string => {
+  const mail = mailTransport.outbox[mailTransport.outbox.length - 1];
+  const match = mail.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]);
+};
+
+describe('Auth Endpoints', () => {
+  const testUser = {
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    password: 'SecurePass123'
+  };
+
+  beforeEach(() => {
+    mailTransport.clear();
+  });
+
+  describe('POST /api/v1/auth/register', () => {
+    it('should return one error per password policy rule that fails', async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/register')
+        .send({ ...testUser, password: 'john1' })
+        .expect(400);
+
+      expect(response.body.message).toBe('Password does not meet the password policy');
+      expect(response.body.errors.map((error: { rule: string }) => error.rule)).toEqual([
+        'minLength',
+        'characterClasses',
+        'bannedSubstring',
+      ]);
+    });
+  });
+
+  describe('POST /api/v1/auth/refresh', () => {
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+
+      refreshToken = response.body.data.refreshToken;
+    });
+
+    it('should rotate the refresh token', async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        message: 'Token refreshed successfully',
+        data: {
+          token: expect.any(String),
+          refreshToken: expect.any(String),
+          expiresIn: expect.any(String),
+        }
+      });
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should revoke the session when a used refresh token is replayed', async () => {
+      const rotated = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      // Replaying the original token is treated as theft
+      const replay = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(replay.body).toMatchObject({
+        success: false,
+        message: 'Refresh token reuse detected',
+      });
+
+      // The legitimately rotated token is revoked as well
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: rotated.body.data.refreshToken })
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/logout', () => {
+    it('should revoke the access token used for the request', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+      const token = registered.body.data.token;
+
+      await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+
+      expect(response.body.message).toBe('Token has been revoked');
+    });
+  });
+
+  describe('POST /api/v1/auth/logout-all', () => {
+    it('should revoke access and refresh tokens from every login', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+
+      await request(app)
+        .post('/api/v1/auth/logout-all')
+        .set('Authorization', `Bearer ${registered.body.data.token}`)
+        .expect(200);
+
+      // Issued within the same second as the logout, which must not matter
+      await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${registered.body.data.token}`)
+        .expect(401);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: registered.body.data.refreshToken })
+        .expect(401);
+
+      // Signing in again afterwards works straight away
+      const login = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: testUser.password })
+        .expect(200);
+
+      await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${login.body.data.token}`)
+        .expect(200);
+    });
+  });
+
+  describe('GET/DELETE /api/v1/auth/sessions', () => {
+    it('should list sessions per device and revoke one of them', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .set('User-Agent', 'Laptop Browser')
+        .send(testUser)
+        .expect(201);
+      const laptopToken = registered.body.data.token;
+
+      const phone = await request(app)
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'Phone App')
+        .send({ email: testUser.email, password: testUser.password })
+        .expect(200);
+
+      const listed = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${laptopToken}`)
+        .expect(200);
+
+      expect(listed.body.data).toHaveLength(2);
+      const phoneSession = listed.body.data.find((session: any) => session.userAgent === 'Phone App');
+      expect(phoneSession.current).toBe(false);
+      expect(listed.body.data.find((session: any) => session.userAgent === 'Laptop Browser').current).toBe(true);
+
+      await request(app)
+        .delete(`/api/v1/auth/sessions/${phoneSession.id}`)
+        .set('Authorization', `Bearer ${laptopToken}`)
+        .expect(200);
+
+      // Both the phone's access token and its refresh token stop working
+      await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${phone.body.data.token}`)
+        .expect(401);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: phone.body.data.refreshToken })
+        .expect(401);
+
+      // The laptop stays signed in
+      await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${laptopToken}`)
+        .expect(200);
+    });
+
+    it("should not revoke another user's session", async () => {
+      const owner = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+      const other = await request(app)
+        .post('/api/v1/auth/register')
+        .send({ ...testUser, email: 'jane.doe@example.com' })
+        .expect(201);
+
+      const listed = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${owner.body.data.token}`)
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/v1/auth/sessions/${listed.body.data[0].id}`)
+        .set('Authorization', `Bearer ${other.body.data.token}`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/v1/auth/change-password', () => {
+    it('should change the password and revoke existing tokens', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+      const oldToken = registered.body.data.token;
+
+      const response = await request(app)
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${oldToken}`)
+        .send({ currentPassword: testUser.password, newPassword: 'NewSecurePass456' })
+        .expect(200);
+
+      expect(response.body.data.token).toEqual(expect.any(String));
+
+      await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${oldToken}`)
+        .expect(401);
+
+      await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: 'NewSecurePass456' })
+        .expect(200);
+    });
+  });
+
+  describe('POST /api/v1/auth/forgot-password', () => {
+    it('should respond identically for unknown emails without sending mail', async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(response.body.message).toBe('If an account with that email exists, a password reset link has been sent');
+      expect(mailTransport.outbox).toHaveLength(0);
+    });
+
+    it('should email a single-use reset token', async () => {
+      await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+
+      await request(app)
+        .post('/api/v1/auth/forgot-password')
+        .send({ email: testUser.email })
+        .expect(200);
+
+      expect(mailTransport.outbox).toHaveLength(1);
+      expect(mailTransport.outbox[0].to).toBe(testUser.email);
+      const token = tokenFromLastMail();
+
+      await request(app)
+        .post('/api/v1/auth/reset-password')
+        .send({ token, newPassword: 'ResetPass789' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: 'ResetPass789' })
+        .expect(200);
+
+      // The token cannot be reused
+      await request(app)
+        .post('/api/v1/auth/reset-password')
+        .send({ token, newPassword: 'AnotherPass123' })
+        .expect(400);
+    });
+
+    it('should not reset the password of an account deactivated or deleted after the link was sent', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+      const userId = registered.body.data.user.id;
+      const { password } = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+
+      await request(app).post('/api/v1/auth/forgot-password').send({ email: testUser.email }).expect(200);
+      const token = tokenFromLastMail();
+
+      await prisma.user.update({ where: { id: userId }, data: { isActive: false } });
+      await request(app)
+        .post('/api/v1/auth/reset-password')
+        .send({ token, newPassword: 'ResetPass789' })
+        .expect(400);
+
+      await prisma.user.update({ where: { id: userId }, data: { isActive: true, deletedAt: new Date() } });
+      await request(app)
+        .post('/api/v1/auth/reset-password')
+        .send({ token, newPassword: 'ResetPass789' })
+        .expect(400);
+
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+      expect(user.password).toBe(password);
+    });
+  });
+
+  describe('POST /api/v1/auth/verify-email', () => {
+    it('should verify the email using the token sent on registration', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+
+      expect(registered.body.data.user.emailVerified).toBe(false);
+      expect(mailTransport.outbox[0].subject).toBe('Verify your email address');
+
+      const response = await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({ token: tokenFromLastMail() })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        email: testUser.email,
+        emailVerified: true,
+      });
+    });
+
+    it('should require a changed email address to be verified again', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+      const token = registered.body.data.token;
+
+      await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({ token: tokenFromLastMail() })
+        .expect(200);
+      const oldLink = tokenFromLastMail();
+
+      await request(app)
+        .put(`/api/v1/users/${registered.body.data.user.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'john.new@example.com' })
+        .expect(200);
+
+      const profile = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(profile.body.data.emailVerified).toBe(false);
+      expect(mailTransport.outbox[mailTransport.outbox.length - 1].to).toBe('john.new@example.com');
+
+      // The link for the old address no longer works, the new one does
+      await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({ token: oldLink })
+        .expect(400);
+
+      const response = await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({ token: tokenFromLastMail() })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ email: 'john.new@example.com', emailVerified: true });
+    });
+
+    it('should not accept an access token as a verification token', async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+
+      await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({ token: registered.body.data.token })
+        .expect(400);
+    });
+  });
+
+  describe('GET /.well-known/jwks.json', () => {
+    const originalKeyStore = signingKeys.getKeyStore();
+
+    afterEach(() => {
+      signingKeys.setKeyStore(originalKeyStore);
+    });
+
+    it('should publish the key that access tokens are signed with', async () => {
+      signingKeys.setKeyStore(KeyStore.generate('ES256', 'test-key'));
+
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+
+      const response = await request(app)
+        .get('/.well-known/jwks.json')
+        .expect(200);
+
+      expect(response.body.keys).toEqual([
+        expect.objectContaining({ kid: 'test-key', kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' }),
+      ]);
+
+      await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${registered.body.data.token}`)
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+import { mailer, MemoryTransport } from '../../src/lib/mailer';
+
+const app = createTestApp();
+const mailTransport = new MemoryTransport();
+mailer.setTransport(mailTransport);
+
+const tokenFromLastMail = (): string => {
+  const mail = mailTransport.outbox[mailTransport.outbox.length - 1];
+  const match = mail.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]);
+};
+
+describe('Invitation Endpoints', () => {
+  const invitee = {
+    name: 'Jane Smith',
+    email: 'jane.smith@example.com'
+  };
+
+  let adminToken: string;
+
+  beforeEach(async () => {
+    const admin = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ name: 'Ad Min', email: 'admin@example.com', password: 'SecurePass123' })
+      .expect(201);
+    adminToken = admin.body.data.token;
+    await prisma.user.update({ where: { id: admin.body.data.user.id }, data: { role: 'ADMIN' } });
+
+    mailTransport.clear();
+  });
+
+  const invite = async () => {
+    await request(app)
+      .post('/api/v1/users')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(invitee)
+      .expect(201);
+
+    const listed = await request(app)
+      .get('/api/v1/users/invitations?status=pending')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    return listed.body.data[0];
+  };
+
+  it('should email an invitation that lets the user choose a password', async () => {
+    const invitation = await invite();
+
+    expect(invitation).toMatchObject({
+      status: 'pending',
+      user: { email: invitee.email },
+      invitedBy: { email: 'admin@example.com' },
+    });
+    expect(mailTransport.outbox).toHaveLength(1);
+    expect(mailTransport.outbox[0].to).toBe(invitee.email);
+
+    const accepted = await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token: tokenFromLastMail(), password: 'SecurePass123' })
+      .expect(200);
+
+    expect(accepted.body.data.user).toMatchObject({ email: invitee.email, emailVerified: true });
+
+    await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: invitee.email, password: 'SecurePass123' })
+      .expect(200);
+
+    const listed = await request(app)
+      .get('/api/v1/users/invitations?status=accepted')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(listed.body.data.map((entry: { id: number }) => entry.id)).toEqual([invitation.id]);
+  });
+
+  it('should replace earlier links when the invitation is resent', async () => {
+    const invitation = await invite();
+    const firstToken = tokenFromLastMail();
+
+    await request(app)
+      .post(`/api/v1/users/invitations/${invitation.id}/resend`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(mailTransport.outbox).toHaveLength(2);
+
+    const response = await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token: firstToken, password: 'SecurePass123' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Invalid or expired invitation');
+
+    await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token: tokenFromLastMail(), password: 'SecurePass123' })
+      .expect(200);
+  });
+
+  it('should list expired invitations', async () => {
+    const invitation = await invite();
+    await prisma.invitation.update({ where: { id: invitation.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+    const response = await request(app)
+      .get('/api/v1/users/invitations?status=expired')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual([expect.objectContaining({ id: invitation.id, status: 'expired' })]);
+  });
+});
@@ -0,0 +1,113 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+import { mailer, MemoryTransport } from '../../src/lib/mailer';
+
+const app = createTestApp();
+const mailTransport = new MemoryTransport();
+mailer.setTransport(mailTransport);
+
+const tokenFromLastMail = (): string => {
+  const mail = mailTransport.outbox[mailTransport.outbox.length - 1];
+  const match = mail.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]);
+};
+
+describe('Magic Link Endpoints', () => {
+  const testUser = {
+    name: 'John Doe',
+    email: 'john.doe@example.com'
+  };
+
+  beforeEach(() => {
+    mailTransport.clear();
+  });
+
+  it('should respond identically for unknown emails without sending mail', async () => {
+    const response = await request(app)
+      .post('/api/v1/auth/magic-link')
+      .send({ email: 'nobody@example.com' })
+      .expect(200);
+
+    expect(response.body.message).toBe('If an account with that email exists, a sign-in link has been sent');
+    expect(mailTransport.outbox).toHaveLength(0);
+  });
+
+  it('should sign in an account without a password using a single-use link', async () => {
+    // Created like userService.createUser does, with no password
+    await prisma.user.create({ data: testUser });
+
+    await request(app)
+      .post('/api/v1/auth/magic-link')
+      .send({ email: testUser.email })
+      .expect(200);
+
+    expect(mailTransport.outbox).toHaveLength(1);
+    expect(mailTransport.outbox[0].to).toBe(testUser.email);
+    const token = tokenFromLastMail();
+
+    const response = await request(app)
+      .post('/api/v1/auth/magic-link/verify')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({
+      token: expect.any(String),
+      refreshToken: expect.any(String),
+      user: { email: testUser.email, emailVerified: true },
+    });
+
+    await request(app)
+      .get('/api/v1/auth/profile')
+      .set('Authorization', `Bearer ${response.body.data.token}`)
+      .expect(200);
+
+    const reused = await request(app)
+      .post('/api/v1/auth/magic-link/verify')
+      .send({ token })
+      .expect(401);
+
+    expect(reused.body.message).toBe('Invalid or expired sign-in link');
+  });
+
+  it('should only accept the most recent link', async () => {
+    await prisma.user.create({ data: testUser });
+
+    await request(app).post('/api/v1/auth/magic-link').send({ email: testUser.email }).expect(200);
+    const firstToken = tokenFromLastMail();
+    await request(app).post('/api/v1/auth/magic-link').send({ email: testUser.email }).expect(200);
+
+    await request(app)
+      .post('/api/v1/auth/magic-link/verify')
+      .send({ token: firstToken })
+      .expect(401);
+
+    await request(app)
+      .post('/api/v1/auth/magic-link/verify')
+      .send({ token: tokenFromLastMail() })
+      .expect(200);
+  });
+
+  it('should not sign in an account deactivated or deleted after the link was sent', async () => {
+    const user = await prisma.user.create({ data: testUser });
+
+    await request(app).post('/api/v1/auth/magic-link').send({ email: testUser.email }).expect(200);
+    const token = tokenFromLastMail();
+
+    await prisma.user.update({ where: { id: user.id }, data: { isActive: false } });
+    await request(app)
+      .post('/api/v1/auth/magic-link/verify')
+      .send({ token })
+      .expect(401);
+
+    await prisma.user.update({ where: { id: user.id }, data: { isActive: true, deletedAt: new Date() } });
+    await request(app)
+      .post('/api/v1/auth/magic-link/verify')
+      .send({ token })
+      .expect(401);
+
+    // Nor does the link count as proof of the address
+    const { emailVerified } = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    expect(emailVerified).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+
+const app = createTestApp();
+
+describe('Security Event Endpoints', () => {
+  const testUser = {
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    password: 'SecurePass123'
+  };
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/v1/auth/register')
+      .send(testUser)
+      .expect(201);
+
+    userId = response.body.data.user.id;
+  });
+
+  it('should record logins, failures and refreshes, newest first', async () => {
+    await request(app)
+      .post('/api/v1/auth/login')
+      .set('User-Agent', 'SecurityTest/1.0')
+      .send({ email: testUser.email, password: 'WrongPass123' })
+      .expect(401);
+
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password: testUser.password })
+      .expect(200);
+
+    const refreshed = await request(app)
+      .post('/api/v1/auth/refresh')
+      .send({ refreshToken: login.body.data.refreshToken })
+      .expect(200);
+
+    const response = await request(app)
+      .get('/api/v1/auth/me/security-events')
+      .set('Authorization', `Bearer ${refreshed.body.data.token}`)
+      .expect(200);
+
+    expect(response.body.data.map((event: { type: string }) => event.type)).toEqual([
+      'token.refreshed',
+      'login.succeeded',
+      'login.failed',
+    ]);
+    expect(response.body.data[2]).toMatchObject({
+      userAgent: 'SecurityTest/1.0',
+      details: { reason: 'invalid_password' },
+    });
+    expect(response.body.meta).toEqual({ page: 1, pageSize: 20, total: 3, totalPages: 1 });
+
+    const secondPage = await request(app)
+      .get('/api/v1/auth/me/security-events?page=2&pageSize=2')
+      .set('Authorization', `Bearer ${refreshed.body.data.token}`)
+      .expect(200);
+
+    expect(secondPage.body.data.map((event: { type: string }) => event.type)).toEqual(['login.failed']);
+  });
+
+  it('should let admins see role changes in a user\'s history', async () => {
+    const admin = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ name: 'Ad Min', email: 'admin@example.com', password: 'SecurePass123' })
+      .expect(201);
+    await prisma.user.update({ where: { id: admin.body.data.user.id }, data: { role: 'ADMIN' } });
+    const adminToken = admin.body.data.token;
+
+    await request(app)
+      .patch(`/api/v1/users/${userId}/role`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ role: 'MODERATOR' })
+      .expect(200);
+
+    const response = await request(app)
+      .get(`/api/v1/users/${userId}/security-events`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({
+        type: 'role.changed',
+        details: { from: 'USER', to: 'MODERATOR', changedBy: admin.body.data.user.id },
+      }),
+    ]);
+
+    await request(app)
+      .get(`/api/v1/users/${userId}/security-events?pageSize=500`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+});
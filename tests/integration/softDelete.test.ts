@@ -0,0 +1,99 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+
+const app = createTestApp();
+
+describe('Soft Delete', () => {
+  const testUser = {
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    password: 'SecurePass123'
+  };
+
+  let adminToken: string;
+  let userId: number;
+
+  beforeEach(async () => {
+    const admin = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ name: 'Ad Min', email: 'admin@example.com', password: 'SecurePass123' })
+      .expect(201);
+    await prisma.user.update({ where: { id: admin.body.data.user.id }, data: { role: 'ADMIN' } });
+    adminToken = admin.body.data.token;
+
+    const user = await request(app)
+      .post('/api/v1/auth/register')
+      .send(testUser)
+      .expect(201);
+    userId = user.body.data.user.id;
+
+    await request(app)
+      .delete(`/api/v1/users/${userId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+  });
+
+  it('should hide deleted users until an admin restores them', async () => {
+    await request(app)
+      .get(`/api/v1/users/${userId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+
+    await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password: testUser.password })
+      .expect(401);
+
+    const deleted = await request(app)
+      .get('/api/v1/users/deleted')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(deleted.body.data).toEqual([
+      expect.objectContaining({ id: userId, email: testUser.email, deletedAt: expect.any(String) })
+    ]);
+
+    const restored = await request(app)
+      .post(`/api/v1/users/${userId}/restore`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(restored.body.data).toMatchObject({ id: userId, email: testUser.email });
+    expect(restored.body.data).not.toHaveProperty('deletedAt');
+
+    await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password: testUser.password })
+      .expect(200);
+  });
+
+  it('should let a new account take the address, and then refuse to restore', async () => {
+    const newcomer = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ ...testUser, name: 'Johnny Newman' })
+      .expect(201);
+
+    expect(newcomer.body.data.user.id).not.toBe(userId);
+
+    const response = await request(app)
+      .post(`/api/v1/users/${userId}/restore`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    expect(response.body.message).toBe('Another user now has this email address');
+  });
+
+  it('should keep restoring to admins', async () => {
+    const moderator = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ name: 'Mod Erator', email: 'moderator@example.com', password: 'SecurePass123' })
+      .expect(201);
+    await prisma.user.update({ where: { id: moderator.body.data.user.id }, data: { role: 'MODERATOR' } });
+
+    await request(app)
+      .post(`/api/v1/users/${userId}/restore`)
+      .set('Authorization', `Bearer ${moderator.body.data.token}`)
+      .expect(403);
+  });
+});
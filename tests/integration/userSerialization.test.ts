@@ -0,0 +1,142 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+import { CONFIG } from '../../src/config';
+import { permissionService } from '../../src/services/permissionService';
+
+const app = createTestApp();
+
+describe('User Serialization', () => {
+  const password = 'SecurePass123';
+
+  let adminToken: string;
+  let moderatorToken: string;
+  let userId: number;
+
+  const register = async (name: string, email: string) => {
+    const response = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ name, email, password })
+      .expect(201);
+
+    return { id: response.body.data.user.id as number, token: response.body.data.token as string };
+  };
+
+  const signInToWeb = async (email: string) => {
+    const agent = request.agent(app);
+    const page = await agent.get('/web/auth').expect(200);
+    const csrfToken = page.text.match(/name="csrf-token" content="([^"]+)"/)![1];
+
+    await agent.post('/web/login').set('X-CSRF-Token', csrfToken).send({ email, password }).expect(200);
+    return agent;
+  };
+
+  beforeEach(async () => {
+    const admin = await register('Ad Min', 'admin@example.com');
+    await prisma.user.update({ where: { id: admin.id }, data: { role: 'ADMIN' } });
+    adminToken = admin.token;
+
+    const moderator = await register('Mod Erator', 'moderator@example.com');
+    await prisma.user.update({ where: { id: moderator.id }, data: { role: 'MODERATOR' } });
+    moderatorToken = moderator.token;
+
+    userId = (await register('John Doe', 'john.doe@example.com')).id;
+  });
+
+  it('should never send a password hash', async () => {
+    const hashes = (await prisma.user.findMany()).map((user) => user.password!);
+    expect(hashes).toHaveLength(3);
+
+    const responses: request.Response[] = [];
+    for (const token of [adminToken, moderatorToken]) {
+      const get = (url: string) => request(app).get(url).set('Authorization', `Bearer ${token}`);
+
+      responses.push(
+        await get('/api/v1/users'),
+        await get('/api/v1/users?page=1'),
+        await get('/api/v1/users/search?q=example'),
+        await get(`/api/v1/users/${userId}`),
+        await get('/api/v1/auth/profile'),
+        await get('/api/v1/auth/me/export')
+      );
+    }
+
+    const admin = (agent: request.Test) => agent.set('Authorization', `Bearer ${adminToken}`);
+    const web = await signInToWeb('moderator@example.com');
+    responses.push(
+      await admin(request(app).put(`/api/v1/users/${userId}`)).send({ name: 'Johnny Doe' }),
+      await admin(request(app).patch(`/api/v1/users/${userId}/role`)).send({ role: 'MODERATOR' }),
+      await admin(request(app).post(`/api/v1/users/${userId}/deactivate`)),
+      await admin(request(app).post(`/api/v1/users/${userId}/reactivate`)),
+      await admin(request(app).post(`/api/v1/users/${userId}/unlock`)),
+      await web.get('/web/users'),
+      await web.get('/web/users?q=john'),
+      await web.get(`/web/users/${userId}`),
+      await admin(request(app).delete(`/api/v1/users/${userId}`))
+    );
+
+    for (const response of responses) {
+      expect(response.status).toBeLessThan(300);
+      for (const hash of hashes) {
+        expect(response.text).not.toContain(hash);
+      }
+      expect(response.text).not.toMatch(/"password"\s*:/);
+    }
+  });
+
+  it('should only show the role and account status to admins, even from the cache', async () => {
+    const asModerator = await request(app)
+      .get('/api/v1/users?limit=5')
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(Object.keys(asModerator.body.data[0]).sort()).toEqual(['createdAt', 'email', 'id', 'name', 'updatedAt']);
+
+    // Same URL, so the moderator's response is in the cache
+    const asAdmin = await request(app)
+      .get('/api/v1/users?limit=5')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(asAdmin.body.data[0]).toMatchObject({ role: 'USER', isActive: true });
+  });
+
+  it('should only show the web user pages to signed-in users who may read users', async () => {
+    await request(app).get('/web/users').expect(302).expect('Location', '/web/auth');
+    await request(app).get(`/web/users/${userId}`).expect(302).expect('Location', '/web/auth');
+
+    const web = await signInToWeb('john.doe@example.com');
+    await web.get('/web/users').expect(200);
+  });
+
+  describe('who gets the admin view', () => {
+    const adminFields = ['role', 'isActive', 'emailVerified', 'twoFactorEnabled'];
+
+    const getUser = (token: string) =>
+      request(app).get(`/api/v1/users/${userId}`).set('Authorization', `Bearer ${token}`).expect(200);
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await prisma.rolePermission.deleteMany({
+        where: { role: 'MODERATOR', permission: { key: 'user.read.admin' } },
+      });
+      permissionService.clearCache();
+    });
+
+    it('should follow the user.read.admin permission rather than the role', async () => {
+      const permission = await prisma.permission.findUniqueOrThrow({ where: { key: 'user.read.admin' } });
+      await prisma.rolePermission.create({ data: { role: 'MODERATOR', permissionId: permission.id } });
+      permissionService.clearCache();
+
+      expect(Object.keys((await getUser(moderatorToken)).body.data)).toEqual(expect.arrayContaining(adminFields));
+    });
+
+    it('should not give it to admins whose role is restricted', async () => {
+      jest.replaceProperty(CONFIG, 'REQUIRE_ADMIN_2FA', true);
+
+      // Without 2FA the admin only holds the USER role's permissions
+      const response = await getUser(adminToken);
+      expect(Object.keys(response.body.data).sort()).toEqual(['createdAt', 'email', 'id', 'name', 'updatedAt']);
+    });
+  });
+});
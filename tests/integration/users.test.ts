@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { createTestApp } from '../helpers/testApp';
 import { prisma } from '../setup';
+import { permissionService } from '../../src/services/permissionService';
 
 const app = createTestApp();
 
@@ -198,11 +199,11 @@ describe('User Endpoints', () => {
         message: 'User deleted successfully',
       });
 
-      // Verify user is deleted
+      // Verify user is deleted, but kept for restoring
       const deletedUser = await prisma.user.findUnique({
         where: { id: userId }
       });
-      expect(deletedUser).toBeNull();
+      expect(deletedUser).toMatchObject({ deletedAt: expect.any(Date), deletedEmail: testUser.email });
     });
 
     it('should return 404 for non-existent user', async () => {
@@ -216,4 +217,286 @@ describe('User Endpoints', () => {
       });
     });
   });
+
+  describe('permissions', () => {
+    let moderatorToken: string;
+    let targetId: number;
+
+    beforeEach(async () => {
+      const registered = await request(app)
+        .post('/api/v1/auth/register')
+        .send({ name: 'Mod Erator', email: 'moderator@example.com', password: 'SecurePass123' })
+        .expect(201);
+      await prisma.user.update({
+        where: { id: registered.body.data.user.id },
+        data: { role: 'MODERATOR' }
+      });
+      moderatorToken = registered.body.data.token;
+
+      const target = await prisma.user.create({ data: testUser });
+      targetId = target.id;
+    });
+
+    afterEach(async () => {
+      await prisma.rolePermission.deleteMany({
+        where: { role: 'MODERATOR', permission: { key: 'user.unlock' } }
+      });
+      permissionService.clearCache();
+    });
+
+    it('should expose the resolved permissions on the profile', async () => {
+      const response = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .expect(200);
+
+      expect(response.body.data.permissions).toEqual(expect.arrayContaining(['user.read', 'user.delete']));
+      expect(response.body.data.permissions).not.toContain('user.unlock');
+    });
+
+    it('should follow role permission changes in the database', async () => {
+      const denied = await request(app)
+        .post(`/api/v1/users/${targetId}/unlock`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .expect(403);
+      expect(denied.body.message).toBe('Insufficient permissions');
+
+      const permission = await prisma.permission.findUniqueOrThrow({ where: { key: 'user.unlock' } });
+      await prisma.rolePermission.create({
+        data: { role: 'MODERATOR', permissionId: permission.id }
+      });
+      permissionService.clearCache();
+
+      await request(app)
+        .post(`/api/v1/users/${targetId}/unlock`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .expect(200);
+    });
+  });
+
+  describe('POST /api/v1/users/:id/impersonate', () => {
+    let adminId: number;
+    let adminToken: string;
+    let targetId: number;
+
+    beforeEach(async () => {
+      const admin = await request(app)
+        .post('/api/v1/auth/register')
+        .send({ name: 'Ad Min', email: 'admin@example.com', password: 'SecurePass123' })
+        .expect(201);
+      adminId = admin.body.data.user.id;
+      adminToken = admin.body.data.token;
+      await prisma.user.update({ where: { id: adminId }, data: { role: 'ADMIN' } });
+
+      const target = await request(app)
+        .post('/api/v1/auth/register')
+        .send({ ...testUser, password: 'SecurePass123' })
+        .expect(201);
+      targetId = target.body.data.user.id;
+    });
+
+    it('should act as the user and audit every request', async () => {
+      const started = await request(app)
+        .post(`/api/v1/users/${targetId}/impersonate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(201);
+
+      expect(started.body.data.refreshToken).toBeUndefined();
+      const { token, impersonationId } = started.body.data;
+
+      const profile = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(profile.headers['x-impersonated-by']).toBe(String(adminId));
+      expect(profile.body.data).toMatchObject({
+        id: targetId,
+        impersonation: {
+          actor: { id: adminId, email: 'admin@example.com' },
+          expiresAt: expect.any(String),
+        },
+      });
+
+      // Account-holder-only actions are refused
+      await request(app)
+        .post('/api/v1/auth/logout-all')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+
+      const entries = await prisma.impersonationAuditLog.findMany({
+        where: { impersonationId },
+        orderBy: { id: 'asc' },
+      });
+      expect(entries.map((entry) => [entry.method, entry.path])).toEqual([
+        ['POST', `/api/v1/users/${targetId}/impersonate`],
+        ['GET', '/api/v1/auth/profile'],
+        ['POST', '/api/v1/auth/logout-all'],
+      ]);
+      expect(entries.every((entry) => entry.actorId === adminId && entry.targetUserId === targetId)).toBe(true);
+    });
+
+    it('should not allow impersonating another admin', async () => {
+      await prisma.user.update({ where: { id: targetId }, data: { role: 'ADMIN' } });
+
+      await request(app)
+        .post(`/api/v1/users/${targetId}/impersonate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(403);
+    });
+  });
+});
+
+describe('GET /api/v1/users pagination', () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const registered = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ name: 'Mod Erator', email: 'moderator@example.com', password: 'SecurePass123' })
+      .expect(201);
+    await prisma.user.update({
+      where: { id: registered.body.data.user.id },
+      data: { role: 'MODERATOR' }
+    });
+    token = registered.body.data.token;
+
+    for (let i = 1; i <= 4; i++) {
+      await prisma.user.create({ data: { name: `User ${i}`, email: `user${i}@example.com` } });
+    }
+  });
+
+  it('should follow cursors through every user, newest first', async () => {
+    const emails: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const url: string = cursor ? `/api/v1/users?limit=2&cursor=${cursor}` : '/api/v1/users?limit=2';
+      const response = await request(app)
+        .get(url)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.meta).toMatchObject({ limit: 2, total: 5 });
+      emails.push(...response.body.data.map((user: { email: string }) => user.email));
+
+      const nextCursor: string | null = response.body.meta.nextCursor;
+      if (nextCursor) {
+        expect(response.headers.link).toContain(`cursor=${nextCursor}>; rel="next"`);
+      }
+      cursor = nextCursor;
+    } while (cursor);
+
+    expect(emails).toEqual([
+      'user4@example.com',
+      'user3@example.com',
+      'user2@example.com',
+      'user1@example.com',
+      'moderator@example.com',
+    ]);
+  });
+
+  it('should page by number with first, prev and last links', async () => {
+    const response = await request(app)
+      .get('/api/v1/users?page=3&pageSize=2')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.meta).toEqual({ page: 3, pageSize: 2, total: 5, totalPages: 3 });
+    expect(response.headers.link).toContain('page=1&pageSize=2>; rel="first"');
+    expect(response.headers.link).toContain('page=2&pageSize=2>; rel="prev"');
+    expect(response.headers.link).not.toContain('rel="next"');
+  });
+
+  it('should filter, search and sort, keeping the order across cursors', async () => {
+    await prisma.user.updateMany({
+      where: { email: { in: ['user2@example.com', 'user3@example.com'] } },
+      data: { role: 'MODERATOR' }
+    });
+    await prisma.user.update({ where: { email: 'user3@example.com' }, data: { isActive: false } });
+
+    const filtered = await request(app)
+      .get('/api/v1/users?role=MODERATOR&isActive=true&createdBefore=2100-01-01&sort=-name')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(filtered.body.data.map((user: { name: string }) => user.name)).toEqual(['User 2', 'Mod Erator']);
+    expect(filtered.body.meta.total).toBe(2);
+
+    const searched = await request(app)
+      .get('/api/v1/users?search=user3')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(searched.body.data).toEqual([expect.objectContaining({ email: 'user3@example.com' })]);
+
+    const unsortable = await request(app)
+      .get('/api/v1/users?sort=role,name&limit=3')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(400);
+    expect(unsortable.body.message).toContain('Sort must be');
+
+    const byName = await request(app)
+      .get('/api/v1/users?sort=name&limit=3')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    const { nextCursor } = byName.body.meta;
+
+    const rest = await request(app)
+      .get(`/api/v1/users?sort=name&limit=3&cursor=${nextCursor}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect([...byName.body.data, ...rest.body.data].map((user: { name: string }) => user.name)).toEqual([
+      'Mod Erator',
+      'User 1',
+      'User 2',
+      'User 3',
+      'User 4',
+    ]);
+
+    // A cursor can't be reused with another sort order
+    await request(app)
+      .get(`/api/v1/users?sort=-name&limit=3&cursor=${nextCursor}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(400);
+  });
+
+  it('should search names and emails by relevance', async () => {
+    const response = await request(app)
+      .get('/api/v1/users/search?q=user%203&pageSize=2')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({
+        user: expect.objectContaining({ email: 'user3@example.com' }),
+        snippets: { name: '<mark>User</mark> <mark>3</mark>', email: '<mark>user3</mark>@example.com' },
+      }),
+    ]);
+    expect(response.body.meta).toEqual({ page: 1, pageSize: 2, total: 1, totalPages: 1 });
+
+    await request(app)
+      .get('/api/v1/users/search')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(400);
+  });
+
+  it('should enforce the bounds', async () => {
+    for (const query of [
+      'limit=101',
+      'pageSize=0',
+      'cursor=abc&page=2',
+      'cursor=not-a-cursor',
+      'role=ROOT',
+      'createdFrom=2026-10-01&createdBefore=2026-09-01',
+      'sort=name,-name'
+    ]) {
+      await request(app)
+        .get(`/api/v1/users?${query}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+    }
+  });
 });
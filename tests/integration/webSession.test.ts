@@ -0,0 +1,133 @@
+import request from 'supertest';
+import { createTestApp } from '../helpers/testApp';
+import { prisma } from '../setup';
+
+const app = createTestApp();
+
+// The token is rendered into each page for its scripts and forms
+const csrfTokenFrom = (html: string): string => html.match(/name="csrf-token" content="([^"]+)"/)![1];
+
+describe('Web UI Sessions', () => {
+  const admin = {
+    name: 'Ad Min',
+    email: 'admin@example.com',
+    password: 'SecurePass123'
+  };
+
+  let adminToken: string;
+
+  beforeEach(async () => {
+    const registered = await request(app)
+      .post('/api/v1/auth/register')
+      .send(admin)
+      .expect(201);
+    await prisma.user.update({ where: { id: registered.body.data.user.id }, data: { role: 'ADMIN' } });
+    adminToken = registered.body.data.token;
+  });
+
+  const signIn = async () => {
+    const agent = request.agent(app);
+    const page = await agent.get('/web/auth').expect(200);
+    const csrfToken = csrfTokenFrom(page.text);
+
+    const response = await agent
+      .post('/web/login')
+      .set('X-CSRF-Token', csrfToken)
+      .send({ email: admin.email, password: admin.password })
+      .expect(200);
+
+    return { agent, csrfToken, response };
+  };
+
+  it('should keep the session in an httpOnly cookie instead of returning tokens', async () => {
+    const { agent, response } = await signIn();
+
+    expect(response.body.data).toEqual({ user: expect.objectContaining({ email: admin.email }) });
+    expect(response.headers['set-cookie']).toEqual(
+      expect.arrayContaining([expect.stringMatching(/^web_session=.*; Path=\/web; .*HttpOnly; SameSite=Lax/)])
+    );
+
+    const dashboard = await agent.get('/web/dashboard').expect(200);
+    expect(dashboard.text).toContain(admin.email);
+  });
+
+  it('should reject form posts without a valid CSRF token', async () => {
+    const { agent } = await signIn();
+
+    const response = await agent
+      .post('/web/users/create')
+      .type('form')
+      .send({ name: 'Jane Smith', email: 'jane.smith@example.com', _csrf: 'forged' })
+      .expect(403);
+
+    expect(response.body.message).toBe('Invalid or missing CSRF token');
+    expect(await prisma.user.findUnique({ where: { email: 'jane.smith@example.com' } })).toBeNull();
+  });
+
+  it('should only let signed-in users with permission manage users', async () => {
+    const anonymous = request.agent(app);
+    const page = await anonymous.get('/web/auth').expect(200);
+
+    await anonymous
+      .post('/web/users/create')
+      .type('form')
+      .send({ name: 'Jane Smith', email: 'jane.smith@example.com', _csrf: csrfTokenFrom(page.text) })
+      .expect(401);
+
+    const { agent, csrfToken } = await signIn();
+
+    await agent
+      .post('/web/users/create')
+      .type('form')
+      .send({ name: 'Jane Smith', email: 'jane.smith@example.com', _csrf: csrfToken })
+      .expect(302)
+      .expect('Location', '/web/users');
+
+    expect(await prisma.user.findUnique({ where: { email: 'jane.smith@example.com' } })).not.toBeNull();
+  });
+
+  it('should only seed sample users from a form post with a CSRF token', async () => {
+    const { agent, csrfToken } = await signIn();
+
+    // A link to the page must not write anything
+    await agent.get('/web/users/seed').expect(400);
+
+    await agent.post('/web/users/seed').type('form').send({ _csrf: 'forged' }).expect(403);
+
+    await agent
+      .post('/web/users/seed')
+      .type('form')
+      .send({ _csrf: csrfToken })
+      .expect(302)
+      .expect('Location', '/web/users');
+  });
+
+  it('should not leave stale user responses in the API cache', async () => {
+    const target = await prisma.user.create({ data: { name: 'Jane Smith', email: 'jane.smith@example.com' } });
+    const getTarget = () => request(app).get(`/api/v1/users/${target.id}`).set('Authorization', `Bearer ${adminToken}`);
+
+    await getTarget().expect(200);
+
+    const { agent, csrfToken } = await signIn();
+    await agent
+      .post(`/web/users/${target.id}/delete`)
+      .type('form')
+      .send({ _csrf: csrfToken })
+      .expect(302);
+
+    await getTarget().expect(404);
+  });
+
+  it('should end the session on logout', async () => {
+    const { agent, csrfToken } = await signIn();
+
+    await agent
+      .post('/web/logout')
+      .type('form')
+      .send({ _csrf: csrfToken })
+      .expect(302)
+      .expect('Location', '/web/auth');
+
+    await agent.get('/web/dashboard').expect(302).expect('Location', '/web/auth');
+  });
+});
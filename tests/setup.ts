@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { resetRateLimits } from '../src/middleware/rateLimiting';
 
 // Test database setup
 const prisma = new PrismaClient({
@@ -22,6 +23,8 @@ afterAll(async () => {
 beforeEach(async () => {
   // Clean up database before each test
   await prisma.user.deleteMany({});
+  // Start each test with fresh per-IP limits
+  await resetRateLimits();
 });
 
 export { prisma };
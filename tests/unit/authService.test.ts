@@ -0,0 +1,203 @@
+import { authService } from '../../src/services/authService';
+import { CONFIG } from '../../src/config';
+import { prisma } from '../setup';
+import { passwordHashing, ScryptHasher } from '../../src/lib/passwordHashing';
+import { twoFactorService } from '../../src/services/twoFactorService';
+import { generateCode, generateSecret } from '../../src/lib/totp';
+import { TwoFactorChallengeResponse } from '../../src/types/auth';
+
+describe('AuthService', () => {
+  const testUser = {
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    password: 'SecurePass123'
+  };
+
+  describe('login lockout', () => {
+    beforeEach(async () => {
+      await authService.register(testUser);
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      for (let i = 0; i < CONFIG.LOGIN_LOCKOUT_THRESHOLD; i++) {
+        await expect(authService.login({ email: testUser.email, password: 'WrongPass123' }))
+          .rejects.toThrow('Invalid credentials');
+      }
+
+      const user = await prisma.user.findUnique({ where: { email: testUser.email } });
+      expect(user?.lockedUntil).toEqual(expect.any(Date));
+
+      // Even the right password is refused, with the same message as a wrong one
+      await expect(authService.login(testUser)).rejects.toThrow('Invalid credentials');
+    });
+
+    it('should allow login again after an unlock', async () => {
+      for (let i = 0; i < CONFIG.LOGIN_LOCKOUT_THRESHOLD; i++) {
+        await expect(authService.login({ email: testUser.email, password: 'WrongPass123' })).rejects.toThrow();
+      }
+
+      const user = await prisma.user.findUnique({ where: { email: testUser.email } });
+      await authService.unlockAccount(user!.id);
+
+      await expect(authService.login(testUser)).resolves.toMatchObject({
+        token: expect.any(String),
+      });
+    });
+
+    it('should respond the same for unknown accounts', async () => {
+      await expect(authService.login({ email: 'nobody@example.com', password: 'WrongPass123' }))
+        .rejects.toThrow('Invalid credentials');
+    });
+  });
+
+  describe('admin safeguards', () => {
+    let adminId: number;
+    let moderatorId: number;
+
+    beforeEach(async () => {
+      const admin = await authService.register(testUser);
+      const moderator = await authService.register({ ...testUser, email: 'moderator@example.com' });
+      adminId = admin.user.id;
+      moderatorId = moderator.user.id;
+
+      await prisma.user.update({ where: { id: adminId }, data: { role: 'ADMIN' } });
+      await prisma.user.update({ where: { id: moderatorId }, data: { role: 'MODERATOR' } });
+    });
+
+    it('should not let anyone change their own role', async () => {
+      await expect(authService.updateUserRole(adminId, 'USER', adminId))
+        .rejects.toThrow('You cannot change your own role');
+    });
+
+    it('should not demote or deactivate the last active admin', async () => {
+      await expect(authService.updateUserRole(adminId, 'USER', moderatorId))
+        .rejects.toThrow('Cannot remove the last admin');
+      await expect(authService.deactivateUser(adminId, moderatorId))
+        .rejects.toThrow('Cannot remove the last admin');
+
+      // With a second admin the first one can be demoted
+      await prisma.user.update({ where: { id: moderatorId }, data: { role: 'ADMIN' } });
+      await expect(authService.updateUserRole(adminId, 'USER', moderatorId))
+        .resolves.toMatchObject({ role: 'USER' });
+    });
+
+    it('should end all sessions when deactivating an account', async () => {
+      const { refreshToken } = await authService.issueTokens({ id: moderatorId, email: 'moderator@example.com', role: 'MODERATOR' });
+
+      await authService.deactivateUser(moderatorId, adminId);
+
+      await expect(authService.rotateRefreshToken(refreshToken)).rejects.toThrow('Session has been revoked');
+      expect(await authService.getUserById(moderatorId)).toBeNull();
+
+      await authService.reactivateUser(moderatorId);
+      expect(await authService.getUserById(moderatorId)).toMatchObject({ isActive: true });
+    });
+  });
+
+  describe('email verification', () => {
+    it('should not verify a deleted account', async () => {
+      const { user } = await authService.register(testUser);
+      const token = authService.signPurposeToken('email-verification', { userId: user.id, email: user.email }, '1h');
+      await prisma.user.update({ where: { id: user.id }, data: { deletedAt: new Date() } });
+
+      await expect(authService.verifyEmail(token)).rejects.toThrow('Invalid or expired token');
+      expect((await prisma.user.findUniqueOrThrow({ where: { id: user.id } })).emailVerified).toBe(false);
+    });
+  });
+
+  describe('token revocation', () => {
+    it('should revoke tokens from the same second as logging out everywhere', async () => {
+      const { user } = await authService.register(testUser);
+      const tokens = await authService.issueTokens(user);
+      // Without a session only iat can tell the token's age
+      const sessionless = authService.generateToken({ userId: user.id, email: user.email, role: user.role });
+
+      await authService.revokeAllUserTokens(user.id);
+
+      expect(await authService.isTokenRevoked(authService.verifyToken(tokens.token))).toBe(true);
+      expect(await authService.isTokenRevoked(authService.verifyToken(sessionless))).toBe(true);
+
+      // A session started afterwards, even within the same second, is unaffected
+      const fresh = await authService.issueTokens(user);
+      expect(await authService.isTokenRevoked(authService.verifyToken(fresh.token))).toBe(false);
+    });
+  });
+
+  describe('two-factor challenges', () => {
+    const secret = generateSecret();
+    let userId: number;
+
+    const startChallenge = async () =>
+      ((await authService.login(testUser)) as TwoFactorChallengeResponse).challengeToken;
+
+    beforeEach(async () => {
+      userId = (await authService.register(testUser)).user.id;
+      await prisma.user.update({ where: { id: userId }, data: { twoFactorEnabled: true, twoFactorSecret: secret } });
+    });
+
+    it('should only be usable once', async () => {
+      const challengeToken = await startChallenge();
+
+      await expect(twoFactorService.completeLogin(challengeToken, generateCode(secret)))
+        .resolves.toMatchObject({ user: { id: userId }, token: expect.any(String) });
+      await expect(twoFactorService.completeLogin(challengeToken, generateCode(secret)))
+        .rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should be used up by too many wrong codes', async () => {
+      const challengeToken = await startChallenge();
+
+      for (let i = 0; i < CONFIG.TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS; i++) {
+        await expect(twoFactorService.completeLogin(challengeToken, 'wrong'))
+          .rejects.toThrow('Invalid authentication code');
+      }
+
+      await expect(twoFactorService.completeLogin(challengeToken, generateCode(secret)))
+        .rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should count wrong codes toward the account lockout', async () => {
+      const challengeToken = await startChallenge();
+      await prisma.user.update({ where: { id: userId }, data: { failedLoginAttempts: CONFIG.LOGIN_LOCKOUT_THRESHOLD - 1 } });
+
+      await expect(twoFactorService.completeLogin(challengeToken, 'wrong')).rejects.toThrow('Invalid authentication code');
+
+      await expect(twoFactorService.completeLogin(challengeToken, generateCode(secret)))
+        .rejects.toThrow('Account is temporarily locked');
+    });
+
+    it('should refuse a challenge once the user is deleted', async () => {
+      const challengeToken = await startChallenge();
+      await prisma.user.update({ where: { id: userId }, data: { deletedAt: new Date() } });
+
+      await expect(twoFactorService.completeLogin(challengeToken, generateCode(secret)))
+        .rejects.toThrow('Account has been deleted');
+    });
+  });
+
+  describe('password hash upgrades', () => {
+    const originalHasher = passwordHashing.getHasher();
+
+    afterEach(() => {
+      passwordHashing.setHasher(originalHasher);
+    });
+
+    it('should rehash with the current policy on a successful login', async () => {
+      await authService.register(testUser);
+      const before = await prisma.user.findUniqueOrThrow({ where: { email: testUser.email } });
+      expect(before.password).toMatch(/^\$2[aby]\$/);
+
+      passwordHashing.setHasher(new ScryptHasher({ logN: 10, blockSize: 8, parallelism: 1 }));
+
+      // A failed attempt must not touch the stored hash
+      await expect(authService.login({ email: testUser.email, password: 'WrongPass123' })).rejects.toThrow();
+      expect((await prisma.user.findUniqueOrThrow({ where: { id: before.id } })).password).toBe(before.password);
+
+      await authService.login(testUser);
+
+      const after = await prisma.user.findUniqueOrThrow({ where: { id: before.id } });
+      expect(after.password).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$/);
+      await expect(authService.login(testUser)).resolves.toMatchObject({ token: expect.any(String) });
+    });
+  });
+});
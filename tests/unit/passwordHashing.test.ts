@@ -0,0 +1,64 @@
+import { BcryptHasher, passwordHashing, ScryptHasher } from '../../src/lib/passwordHashing';
+
+describe('password hashing', () => {
+  const originalHasher = passwordHashing.getHasher();
+
+  // Cheap parameters keep the tests fast
+  const bcrypt4 = new BcryptHasher(4);
+  const bcrypt5 = new BcryptHasher(5);
+  const scrypt10 = new ScryptHasher({ logN: 10, blockSize: 8, parallelism: 1 });
+
+  afterEach(() => {
+    passwordHashing.setHasher(originalHasher);
+  });
+
+  it('should store scrypt hashes in PHC string format', async () => {
+    passwordHashing.setHasher(scrypt10);
+
+    const hash = await passwordHashing.hash('SecurePass123');
+
+    expect(hash).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+    expect(await passwordHashing.verify('SecurePass123', hash)).toBe(true);
+    expect(await passwordHashing.verify('WrongPass123', hash)).toBe(false);
+  });
+
+  it('should keep verifying hashes made under an older policy', async () => {
+    passwordHashing.setHasher(bcrypt4);
+    const bcryptHash = await passwordHashing.hash('SecurePass123');
+
+    passwordHashing.setHasher(scrypt10);
+
+    expect(await passwordHashing.verify('SecurePass123', bcryptHash)).toBe(true);
+    expect(passwordHashing.needsRehash(bcryptHash)).toBe(true);
+  });
+
+  it('should only ask for a rehash when the parameters are weaker than the policy', async () => {
+    const weakHash = await bcrypt4.hash('SecurePass123');
+    const strongHash = await bcrypt5.hash('SecurePass123');
+
+    passwordHashing.setHasher(bcrypt5);
+
+    expect(passwordHashing.needsRehash(weakHash)).toBe(true);
+    expect(passwordHashing.needsRehash(strongHash)).toBe(false);
+
+    passwordHashing.setHasher(new ScryptHasher({ logN: 11, blockSize: 8, parallelism: 1 }));
+    expect(passwordHashing.needsRehash(await scrypt10.hash('SecurePass123'))).toBe(true);
+  });
+
+  it('should treat unknown and malformed hashes as a wrong password', async () => {
+    const hash = await scrypt10.hash('SecurePass123');
+    const [, , params, salt] = hash.split('$');
+
+    for (const stored of [
+      '',
+      'plaintext',
+      '$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA',
+      '$scrypt$',
+      `$scrypt$${params}$${salt}$`,
+      `$scrypt$ln=99,r=8,p=1$${salt}$${hash.split('$')[4]}`,
+      '$2b$04$tooshort',
+    ]) {
+      await expect(passwordHashing.verify('SecurePass123', stored)).resolves.toBe(false);
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import { checkPassword } from '../../src/lib/passwordPolicy';
+
+describe('password policy', () => {
+  const context = { name: 'John Doe', email: 'john.doe@example.com' };
+
+  const rulesFor = (password: string) => checkPassword(password, context).map((violation) => violation.rule);
+
+  it('should accept a strong password', () => {
+    expect(checkPassword('SecurePass123', context)).toEqual([]);
+  });
+
+  it('should report every rule a password breaks', () => {
+    expect(rulesFor('john1')).toEqual(['minLength', 'characterClasses', 'bannedSubstring']);
+  });
+
+  it('should refuse passwords containing the name or email, ignoring case', () => {
+    expect(rulesFor('JohnsPassword9')).toEqual(['bannedSubstring']);
+    expect(rulesFor('Example2024x')).toEqual(['bannedSubstring']);
+    expect(checkPassword('JohnsPassword9', context)[0].message).toBe('Password must not contain "john"');
+  });
+
+  it('should refuse passwords from the breached password blocklist', () => {
+    expect(rulesFor('Password123')).toEqual(['breached']);
+  });
+});
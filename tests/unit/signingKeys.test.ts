@@ -0,0 +1,53 @@
+import jwt from 'jsonwebtoken';
+import { KeyStore, signingKeys } from '../../src/lib/signingKeys';
+import { authService } from '../../src/services/authService';
+
+describe('signing keys', () => {
+  const originalKeyStore = signingKeys.getKeyStore();
+  const payload = { userId: 1, email: 'john.doe@example.com', role: 'USER' as const };
+
+  afterEach(() => {
+    signingKeys.setKeyStore(originalKeyStore);
+  });
+
+  it.each(['RS256', 'ES256'] as const)('should sign and verify %s tokens with a kid header', (alg) => {
+    signingKeys.setKeyStore(KeyStore.generate(alg, 'key-1'));
+
+    const token = authService.generateToken(payload);
+    const { header } = jwt.decode(token, { complete: true })!;
+
+    expect(header).toMatchObject({ alg, kid: 'key-1' });
+    expect(authService.verifyToken(token)).toMatchObject(payload);
+  });
+
+  it('should keep verifying tokens from a retired key after rotation', () => {
+    const oldKeys = KeyStore.generate('RS256', 'old');
+    signingKeys.setKeyStore(oldKeys);
+    const oldToken = authService.generateToken(payload);
+
+    // Rotate: the old key stays published without its private half
+    const newKey = KeyStore.generate('ES256', 'new').signingKey!;
+    const retiredKey = { ...oldKeys.signingKey!, privateKey: undefined };
+    signingKeys.setKeyStore(new KeyStore([retiredKey, newKey], 'new'));
+
+    expect(authService.verifyToken(oldToken)).toMatchObject(payload);
+    expect(jwt.decode(authService.generateToken(payload), { complete: true })!.header.kid).toBe('new');
+    expect(signingKeys.getKeyStore().toJwks().keys.map((key) => key.kid)).toEqual(['old', 'new']);
+  });
+
+  it('should reject tokens signed with an unknown key', () => {
+    signingKeys.setKeyStore(KeyStore.generate('ES256', 'removed'));
+    const token = authService.generateToken(payload);
+
+    signingKeys.setKeyStore(KeyStore.generate('ES256', 'current'));
+
+    expect(() => authService.verifyToken(token)).toThrow('Invalid or expired token');
+  });
+
+  it('should only publish public key material', () => {
+    const jwks = KeyStore.generate('RS256', 'key-1').toJwks();
+
+    expect(jwks.keys[0]).toMatchObject({ kid: 'key-1', kty: 'RSA', alg: 'RS256', use: 'sig' });
+    expect(jwks.keys[0].d).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { base32Encode, base32Decode, generateCode, verifyCode, buildOtpAuthUri } from '../../src/lib/totp';
+
+describe('TOTP', () => {
+  // RFC 6238 test secret "12345678901234567890" (SHA-1)
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should round-trip binary data', () => {
+      const data = Buffer.from('hello two-factor');
+      expect(base32Decode(base32Encode(data))).toEqual(data);
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateCode(secret, Math.floor(59 / 30))).toBe('287082');
+      expect(generateCode(secret, Math.floor(1111111109 / 30))).toBe('081804');
+      expect(generateCode(secret, Math.floor(1234567890 / 30))).toBe('005924');
+    });
+  });
+
+  describe('verifyCode', () => {
+    const now = 1111111109 * 1000;
+
+    it('should accept the current code and return its time step', () => {
+      expect(verifyCode(secret, '081804', 1, now)).toBe(Math.floor(1111111109 / 30));
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      const previous = generateCode(secret, Math.floor(1111111109 / 30) - 1);
+      expect(verifyCode(secret, previous, 1, now)).not.toBeNull();
+    });
+
+    it('should reject wrong or malformed codes', () => {
+      expect(verifyCode(secret, '000000', 1, now)).toBeNull();
+      expect(verifyCode(secret, 'abc', 1, now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should build a provisioning URI', () => {
+      const uri = buildOtpAuthUri(secret, 'john.doe@example.com', 'Express Learning');
+      expect(uri).toMatch(/^otpauth:\/\/totp\/Express%20Learning%3Ajohn\.doe%40example\.com\?/);
+      expect(uri).toContain(`secret=${secret}`);
+    });
+  });
+});
@@ -88,14 +88,29 @@ describe('UserService', () => {
       expect(deletedUser).toMatchObject({
         id: createdUser.id,
         name: testUser.name,
-        email: testUser.email
+        deletedEmail: testUser.email,
+        deletedAt: expect.any(Date)
       });
 
       // Verify deletion
-      const user = await prisma.user.findUnique({
-        where: { id: createdUser.id }
+      expect(await userService.getUserById(createdUser.id)).toBeNull();
+      expect(await userService.getAllUsers()).toHaveLength(0);
+      expect(await userService.emailExists(testUser.email)).toBe(false);
+    });
+
+    it('should purge users deleted longer ago than the retention period', async () => {
+      const createdUser = await prisma.user.create({ data: testUser });
+      await userService.deleteUser(createdUser.id);
+
+      expect(await userService.purgeDeletedUsers()).toBe(0);
+
+      await prisma.user.update({
+        where: { id: createdUser.id },
+        data: { deletedAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000) }
       });
-      expect(user).toBeNull();
+
+      expect(await userService.purgeDeletedUsers()).toBe(1);
+      expect(await prisma.user.findUnique({ where: { id: createdUser.id } })).toBeNull();
     });
 
     it('should return null for non-existent user', async () => {
@@ -104,6 +119,49 @@ describe('UserService', () => {
     });
   });
 
+  describe('searchUsers', () => {
+    beforeEach(async () => {
+      await prisma.user.create({ data: testUser });
+      await prisma.user.create({ data: { name: 'Jane <b>Smith</b>', email: 'jane@john-smith.example.com' } });
+      await prisma.user.create({ data: { name: 'Bob Wilson', email: 'bob@example.com' } });
+    });
+
+    it('should match word prefixes, ranking name matches first', async () => {
+      const { items, meta } = await userService.searchUsers('joh', 1, 20);
+
+      expect(items.map((result) => result.user.email)).toEqual([testUser.email, 'jane@john-smith.example.com']);
+      expect(items[0].score).toBeGreaterThan(items[1].score);
+      expect(meta).toEqual({ page: 1, pageSize: 20, total: 2, totalPages: 1 });
+    });
+
+    it('should return escaped snippets with the matches marked', async () => {
+      const { items } = await userService.searchUsers('smi', 1, 20);
+
+      expect(items[0].snippets).toEqual({
+        name: 'Jane &lt;b&gt;<mark>Smith</mark>&lt;/b&gt;',
+        email: 'jane@john-<mark>smith</mark>.example.com',
+      });
+    });
+
+    it('should follow renames and deletions', async () => {
+      const bob = await prisma.user.findUniqueOrThrow({ where: { email: 'bob@example.com' } });
+      await userService.updateUser(bob.id, { name: 'Robert Wilson' });
+
+      expect((await userService.searchUsers('bob', 1, 20)).items).toHaveLength(1); // Still matches the email
+      expect((await userService.searchUsers('robert', 1, 20)).items).toHaveLength(1);
+
+      await userService.deleteUser(bob.id);
+      expect((await userService.searchUsers('wilson', 1, 20)).items).toHaveLength(0);
+    });
+
+    it('should treat query syntax as plain text', async () => {
+      const { items } = await userService.searchUsers('"john" OR NEAR(*', 1, 20);
+      expect(items).toHaveLength(0); // "or" and "near" have to match too
+
+      expect((await userService.searchUsers('*** ""', 1, 20)).meta.total).toBe(0);
+    });
+  });
+
   describe('emailExists', () => {
     it('should return true if email exists', async () => {
       await prisma.user.create({ data: testUser });